@@ -0,0 +1,43 @@
+import * as vscode from "vscode";
+
+/**
+ * Throws a CancellationError when the token has been cancelled, e.g. because a newer branch
+ * change superseded the run. Undefined tokens never cancel.
+ */
+export function throwIfCancelled(token: vscode.CancellationToken | undefined): void {
+  if (token?.isCancellationRequested) {
+    throw new vscode.CancellationError();
+  }
+}
+
+/**
+ * Settles with the promise, or rejects with a CancellationError as soon as the token is cancelled.
+ * Notifications cannot be dismissed programmatically, so a superseded run stops waiting on them.
+ */
+export function raceCancellation<T>(
+  promise: Thenable<T>,
+  token: vscode.CancellationToken | undefined
+): Promise<T> {
+  if (!token) {
+    return Promise.resolve(promise);
+  } else if (token.isCancellationRequested) {
+    return Promise.reject(new vscode.CancellationError());
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const listener = token.onCancellationRequested(() => {
+      listener.dispose();
+      reject(new vscode.CancellationError());
+    });
+    promise.then(
+      (value) => {
+        listener.dispose();
+        resolve(value);
+      },
+      (error) => {
+        listener.dispose();
+        reject(error);
+      }
+    );
+  });
+}
@@ -0,0 +1,10 @@
+/**
+ * Formats an error into a readable message.
+ */
+export function stringifyError(error: unknown): string {
+  if (error instanceof Error) {
+    return error.message;
+  }
+
+  return String(error);
+}
@@ -0,0 +1,166 @@
+const GLOB_PREFIX = "glob:";
+const REGEX_PREFIX = "regex:";
+
+/**
+ * What a pattern is matched against:
+ * - "file": repo-relative file paths; slash-less globs match the file name at any depth.
+ * - "directory": repo-relative file paths; globs match any parent directory of the file.
+ * - "branch": branch names; globs must match the whole name.
+ */
+export type PatternTarget = "file" | "directory" | "branch";
+
+export type CompiledPattern = (value: string) => boolean;
+
+/**
+ * Compiles a single pattern, or returns undefined for a blank one. Throws for invalid patterns.
+ * Patterns may be prefixed with "glob:" or "regex:", or written as "/pattern/flags". Unprefixed
+ * branch patterns are globs when they contain "*" or "?" and exact names otherwise, since branch
+ * names may contain regex syntax such as "+" or "()". Unprefixed path patterns containing regex
+ * syntax are regexes, other ones containing "*" or "?" are globs, and plain text is a substring
+ * regex as before.
+ */
+export function compilePattern(pattern: string, target: PatternTarget): CompiledPattern | undefined {
+  const trimmed = pattern.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+
+  if (trimmed.startsWith(GLOB_PREFIX)) {
+    return compileGlob(trimmed.slice(GLOB_PREFIX.length).trim(), target);
+  }
+  if (trimmed.startsWith(REGEX_PREFIX)) {
+    const regex = new RegExp(trimmed.slice(REGEX_PREFIX.length).trim());
+    return (value) => regex.test(value);
+  }
+  if (trimmed.startsWith("/") && trimmed.lastIndexOf("/") > 0) {
+    const lastSlash = trimmed.lastIndexOf("/");
+    const regex = new RegExp(trimmed.slice(1, lastSlash), trimmed.slice(lastSlash + 1));
+    return (value) => regex.test(value);
+  }
+
+  if (target !== "branch" && looksLikeRegex(trimmed)) {
+    const regex = new RegExp(trimmed);
+    return (value) => regex.test(value);
+  }
+  if (/[*?]/.test(trimmed)) {
+    return compileGlob(trimmed, target);
+  }
+  if (target === "branch") {
+    return (value) => value === trimmed;
+  }
+  const regex = new RegExp(trimmed);
+  return (value) => regex.test(value);
+}
+
+/**
+ * Converts a gitignore-style glob to a regular expression source. "*" and "?" never match "/",
+ * "**" spans directories, bracket expressions are passed through and "{a,b}" alternates.
+ */
+export function globToRegExpSource(glob: string): string {
+  let source = "";
+  let braceDepth = 0;
+  for (let index = 0; index < glob.length; index += 1) {
+    const char = glob[index];
+    if (char === "\\" && index + 1 < glob.length) {
+      index += 1;
+      source += escapeRegExp(glob[index]);
+    } else if (char === "*") {
+      if (glob[index + 1] === "*") {
+        const atSegmentStart = index === 0 || glob[index - 1] === "/";
+        const atSegmentEnd = index + 2 === glob.length || glob[index + 2] === "/";
+        if (atSegmentStart && atSegmentEnd) {
+          if (index + 2 === glob.length) {
+            // Trailing "**" matches everything inside.
+            source += ".*";
+          } else {
+            // Leading or middle "**/" matches zero or more directories.
+            source += "(?:.*/)?";
+            index += 1;
+          }
+          index += 1;
+          continue;
+        }
+        index += 1;
+      }
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const close = glob.indexOf("]", index + 2);
+      if (close === -1) {
+        source += "\\[";
+        continue;
+      }
+      let expression = glob.slice(index + 1, close);
+      if (expression.startsWith("!")) {
+        expression = `^${expression.slice(1)}`;
+      }
+      source += `[${expression}]`;
+      index = close;
+    } else if (char === "{") {
+      braceDepth += 1;
+      source += "(?:";
+    } else if (char === "}" && braceDepth > 0) {
+      braceDepth -= 1;
+      source += ")";
+    } else if (char === "," && braceDepth > 0) {
+      source += "|";
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return source;
+}
+
+/**
+ * Compiles a glob for the given target.
+ */
+function compileGlob(glob: string, target: PatternTarget): CompiledPattern {
+  if (!glob) {
+    throw new Error("empty glob");
+  }
+
+  if (target === "branch") {
+    const regex = new RegExp(`^${globToRegExpSource(glob)}$`);
+    return (value) => regex.test(value);
+  }
+
+  // As in .gitignore, a slash anchors the glob to the repository root; otherwise it matches a
+  // name at any depth.
+  let body = glob.replace(/\/+$/, "");
+  if (target === "directory") {
+    // "dist/**" names the directory itself.
+    body = body.replace(/\/\*\*$/, "");
+  }
+  const anchored = body.includes("/");
+  body = body.replace(/^\/+/, "");
+  const source = globToRegExpSource(body);
+  const regex = new RegExp(anchored ? `^${source}$` : `^(?:.*/)?${source}$`);
+  if (target === "file") {
+    return (value) => regex.test(value);
+  }
+
+  return (value) => {
+    const segments = value.split("/");
+    for (let depth = 1; depth < segments.length; depth += 1) {
+      if (regex.test(segments.slice(0, depth).join("/"))) {
+        return true;
+      }
+    }
+    return false;
+  };
+}
+
+/**
+ * Detects regex-only syntax, so existing path regex settings keep working without a prefix.
+ */
+function looksLikeRegex(pattern: string): boolean {
+  return /[\\^$()|+]/.test(pattern) || /\.[*+?]/.test(pattern);
+}
+
+/**
+ * Escapes a literal string for use in a regular expression.
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
@@ -0,0 +1,43 @@
+import * as vscode from "vscode";
+import { output } from "./logger";
+import { stringifyError } from "./errors";
+import { CompiledPattern, compilePattern, PatternTarget } from "./patternCompiler";
+
+// Compiled patterns keyed by target and source; cleared when the configuration changes.
+const compiledPatterns = new Map<string, CompiledPattern | undefined>();
+
+/**
+ * Returns true when the value matches any of the patterns; see compilePattern for the syntax.
+ */
+export function matchesAnyPattern(value: string, patterns: string[], target: PatternTarget): boolean {
+  return patterns.some((pattern) => getCompiledPattern(pattern, target)?.(value) ?? false);
+}
+
+/**
+ * Drops all compiled patterns so edited settings are recompiled (and re-validated) on next use.
+ */
+export function clearPatternCache(): void {
+  compiledPatterns.clear();
+}
+
+/**
+ * Returns the cached matcher for a pattern, compiling it on first use. Invalid patterns are
+ * reported once and never match.
+ */
+function getCompiledPattern(pattern: string, target: PatternTarget): CompiledPattern | undefined {
+  const key = `${target}\0${pattern}`;
+  if (compiledPatterns.has(key)) {
+    return compiledPatterns.get(key);
+  }
+
+  let compiled: CompiledPattern | undefined;
+  try {
+    compiled = compilePattern(pattern, target);
+  } catch (error) {
+    const message = `Invalid pattern "${pattern}": ${stringifyError(error)}`;
+    output.appendLine(message);
+    void vscode.window.showWarningMessage(`Branch Change Tabs: ${message}`);
+  }
+  compiledPatterns.set(key, compiled);
+  return compiled;
+}
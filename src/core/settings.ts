@@ -1,5 +1,16 @@
 import * as vscode from "vscode";
-import { ExtensionSEttings } from "./types";
+import {
+  AuthorFilterMode,
+  BaseRefStrategy,
+  ChangedFilesViewMode,
+  ChangeType,
+  DetachedHeadAutoOpen,
+  DirtyTabPolicy,
+  ExtensionSEttings,
+  OpenMode,
+  RankingStrategy,
+  SessionRestoreMode
+} from "./types";
 
 /**
  * Loads extension settings from the VS Code configuration.
@@ -44,6 +55,15 @@ export function getExtensionSettings(): ExtensionSEttings {
     includeNewlyTrackedFiles: includeNewlyTrackedFiles ?? true,
     pinModifiedFiles: pinModifiedFiles ?? true,
     pinNewlyTrackedFiles: pinNewlyTrackedFiles ?? true,
+    includeRenamedFiles: config.get<boolean>("includeRenamedFiles", true),
+    includeCopiedFiles: config.get<boolean>("includeCopiedFiles", true),
+    includeDeletedFiles: config.get<boolean>("includeDeletedFiles", true),
+    includeTypeChangedFiles: config.get<boolean>("includeTypeChangedFiles", true),
+    includeUnmergedFiles: config.get<boolean>("includeUnmergedFiles", true),
+    pinRenamedFiles: config.get<boolean>("pinRenamedFiles", true),
+    pinCopiedFiles: config.get<boolean>("pinCopiedFiles", true),
+    pinTypeChangedFiles: config.get<boolean>("pinTypeChangedFiles", true),
+    pinUnmergedFiles: config.get<boolean>("pinUnmergedFiles", true),
     excludedFiles: config.get<string[]>("excludedFiles", [
       "\\.png$",
       "\\.jpe?g$",
@@ -68,6 +88,72 @@ export function getExtensionSettings(): ExtensionSEttings {
     closeAllOnExcludedBranch: config.get<boolean>("closeAllOnExcludedBranch", true),
     promptOnNewRepository: promptOnNewRepository ?? true,
     disabledRepositories: disabledRepositories ?? [],
-    baseBranch
+    baseBranch,
+    sessionRestoreMode: config.get<SessionRestoreMode>("sessionRestoreMode", "openDiffFiles"),
+    includeWorkingTreeChanges: config.get<boolean>("includeWorkingTreeChanges", false),
+    changedFilesViewMode: config.get<ChangedFilesViewMode>("changedFilesViewMode", "flat"),
+    changedFilesShowAllRepositories: config.get<boolean>("changedFilesShowAllRepositories", false),
+    fileRankingStrategy: config.get<RankingStrategy>("fileRankingStrategy", "alphabetical"),
+    changedFilesSortByRanking: config.get<boolean>("changedFilesSortByRanking", false),
+    authorFilterMode: config.get<AuthorFilterMode>("authorFilterMode", "lastAuthor"),
+    authorIdentities: config.get<string[]>("authorIdentities", []),
+    baseRefStrategies: config.get<BaseRefStrategy[]>("baseRefStrategies", [
+      "configured",
+      "upstream",
+      "defaultBranch"
+    ]),
+    defaultBranchNames: config.get<string[]>("defaultBranchNames", ["main", "master", "develop", "trunk"]),
+    openMode: config.get<OpenMode>("openMode", "file"),
+    dirtyTabPolicy: config.get<DirtyTabPolicy>("dirtyTabPolicy", "skip"),
+    openFilesOnCommitChange: config.get<boolean>("openFilesOnCommitChange", false),
+    closeFilesLeavingBranchDiff: config.get<boolean>("closeFilesLeavingBranchDiff", false),
+    highlightChangesSinceLastVisit: config.get<boolean>("highlightChangesSinceLastVisit", true),
+    detachedHeadAutoOpen: config.get<DetachedHeadAutoOpen>("detachedHeadAutoOpen", "off")
   };
 }
+
+/**
+ * Returns the change kinds enabled by the include* settings.
+ */
+export function getIncludedChangeTypes(settings: ExtensionSEttings): Set<ChangeType> {
+  const included = new Set<ChangeType>();
+  const toggles: [ChangeType, boolean][] = [
+    ["modified", settings.includeModifiedFiles],
+    ["added", settings.includeNewlyTrackedFiles],
+    ["renamed", settings.includeRenamedFiles],
+    ["copied", settings.includeCopiedFiles],
+    ["deleted", settings.includeDeletedFiles],
+    ["typeChanged", settings.includeTypeChangedFiles],
+    ["unmerged", settings.includeUnmergedFiles]
+  ];
+  for (const [kind, enabled] of toggles) {
+    if (enabled) {
+      included.add(kind);
+    }
+  }
+
+  return included;
+}
+
+/**
+ * Returns whether files of the given change kind should be pinned when opened.
+ * Deleted files are never opened as editors, so they are never pinned.
+ */
+export function shouldPinChangeType(settings: ExtensionSEttings, kind: ChangeType): boolean {
+  switch (kind) {
+    case "modified":
+      return settings.pinModifiedFiles;
+    case "added":
+      return settings.pinNewlyTrackedFiles;
+    case "renamed":
+      return settings.pinRenamedFiles;
+    case "copied":
+      return settings.pinCopiedFiles;
+    case "typeChanged":
+      return settings.pinTypeChangedFiles;
+    case "unmerged":
+      return settings.pinUnmergedFiles;
+    case "deleted":
+      return false;
+  }
+}
@@ -21,20 +21,95 @@ export interface RepositoryState {
 
 export interface Branch {
   name?: string;
+  commit?: string;
   upstream?: { name?: string };
 }
 
-export type ChangeType = "modified" | "added";
+export type ChangeType =
+  | "modified"
+  | "added"
+  | "renamed"
+  | "copied"
+  | "deleted"
+  | "typeChanged"
+  | "unmerged";
+
+export type ChangeSource = "committed" | "staged" | "unstaged" | "untracked";
 
 export type ChangedFile = {
   path: string;
   kind: ChangeType;
+  sources: ChangeSource[];
+  oldPath?: string;
+  similarity?: number;
+};
+
+export type BaseRefStrategy = "configured" | "upstream" | "nearestAncestor" | "defaultBranch";
+
+export type BaseRefSource = BaseRefStrategy | "selected";
+
+export type AuthorFilterMode = "all" | "lastAuthor" | "anyCommit" | "majorityLines";
+
+export type RankingStrategy =
+  | "linesChanged"
+  | "recentlyCommitted"
+  | "commitCount"
+  | "alphabetical";
+
+export type ChangedFilesViewMode = "flat" | "tree";
+
+export type OpenMode = "file" | "diffAgainstBase" | "diffAgainstHead";
+
+export type GitOperation = "rebase" | "merge" | "cherryPick" | "revert" | "bisect";
+
+export type DetachedHeadAutoOpen = "off" | "tags" | "always";
+
+export type DirtyTabPolicy = "skip" | "save" | "prompt";
+
+export type SessionRestoreMode = "restoreSnapshot" | "openDiffFiles" | "both";
+
+export type SessionSnapshotTab = {
+  uri: string;
+  pinned: boolean;
+  active: boolean;
+  // Left side and title of a diff tab; the tab is reopened as a diff when set.
+  diffOriginalUri?: string;
+  diffTitle?: string;
+};
+
+export type SessionSnapshotGroup = {
+  viewColumn: number;
+  active: boolean;
+  tabs: SessionSnapshotTab[];
+};
+
+export type SessionSnapshot = {
+  branch: string;
+  savedAt: number;
+  groups: SessionSnapshotGroup[];
+};
+
+export type RepositoryRun = {
+  // Branch name or detached commit SHA the run was started for.
+  headRef?: string;
+  cancellation: vscode.CancellationTokenSource;
+  done: Promise<void>;
 };
 
 export type GitRepositoryState = {
   lastBranch?: string;
+  lastCommit?: string;
   pendingTimer?: NodeJS.Timeout;
+  // Git operation that is holding off branch handling until it finishes.
+  pendingOperation?: GitOperation;
+  // Branch handling currently in progress; a newer checkout cancels it.
+  activeRun?: RepositoryRun;
   openedFiles: Set<string>;
+  // Repo-relative paths that were openable in the last branch diff, for incremental refreshes.
+  branchDiffFiles?: Set<string>;
+  // Set on entering a branch; only the first HEAD move after that still updates the
+  // "changed since last visit" highlights.
+  awaitingFirstHeadMove?: boolean;
 };
 
 export type ExtensionSEttings = {
@@ -44,6 +119,15 @@ export type ExtensionSEttings = {
   includeNewlyTrackedFiles: boolean;
   pinModifiedFiles: boolean;
   pinNewlyTrackedFiles: boolean;
+  includeRenamedFiles: boolean;
+  includeCopiedFiles: boolean;
+  includeDeletedFiles: boolean;
+  includeTypeChangedFiles: boolean;
+  includeUnmergedFiles: boolean;
+  pinRenamedFiles: boolean;
+  pinCopiedFiles: boolean;
+  pinTypeChangedFiles: boolean;
+  pinUnmergedFiles: boolean;
   excludedFiles: string[];
   maxFilesToOpen: number;
   textFilesOnly: boolean;
@@ -53,4 +137,20 @@ export type ExtensionSEttings = {
   promptOnNewRepository: boolean;
   disabledRepositories: string[];
   baseBranch: string;
+  sessionRestoreMode: SessionRestoreMode;
+  includeWorkingTreeChanges: boolean;
+  changedFilesViewMode: ChangedFilesViewMode;
+  changedFilesShowAllRepositories: boolean;
+  fileRankingStrategy: RankingStrategy;
+  changedFilesSortByRanking: boolean;
+  authorFilterMode: AuthorFilterMode;
+  authorIdentities: string[];
+  baseRefStrategies: BaseRefStrategy[];
+  defaultBranchNames: string[];
+  openMode: OpenMode;
+  dirtyTabPolicy: DirtyTabPolicy;
+  openFilesOnCommitChange: boolean;
+  closeFilesLeavingBranchDiff: boolean;
+  highlightChangesSinceLastVisit: boolean;
+  detachedHeadAutoOpen: DetachedHeadAutoOpen;
 };
@@ -0,0 +1,120 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { Repository } from "../../core/types";
+import { getExtensionSettings } from "../../core/settings";
+import { resolveBaseRef } from "../../git/baseRef";
+import { getHeadRef } from "../../git/head";
+import { getWorkingTreeHunks, Hunk } from "../../git/hunks";
+import { getSelectedBaseRef } from "../../state/baseRefSelections";
+
+/**
+ * Moves the cursor to the first hunk and scrolls it into view.
+ */
+export function revealFirstHunk(editor: vscode.TextEditor, hunks: Hunk[] | undefined): void {
+  const first = hunks?.[0];
+  if (!first) {
+    return;
+  }
+
+  revealLine(editor, first.startLine);
+}
+
+/**
+ * Moves the cursor in the active editor to the next or previous hunk of the branch diff,
+ * i.e. relative to the merge-base with the base ref rather than to HEAD. Wraps around at the ends.
+ */
+export async function goToBranchHunk(
+  repositories: Repository[],
+  direction: "next" | "previous",
+  context: vscode.ExtensionContext
+): Promise<void> {
+  const editor = vscode.window.activeTextEditor;
+  const fileUri = editor?.document.uri;
+  if (!editor || !fileUri || fileUri.scheme !== "file") {
+    void vscode.window.showInformationMessage("Branch Change Tabs: open a file to navigate branch hunks.");
+    return;
+  }
+
+  const repo = repositories.find((candidate) => {
+    const relative = path.relative(candidate.rootUri.fsPath, fileUri.fsPath);
+    return relative && !relative.startsWith("..") && !path.isAbsolute(relative);
+  });
+  if (!repo || !getHeadRef(repo)) {
+    void vscode.window.showInformationMessage(
+      "Branch Change Tabs: the active file is not in an open git repository with a checked-out commit."
+    );
+    return;
+  }
+
+  const repoRoot = repo.rootUri.fsPath;
+  const settings = getExtensionSettings();
+  const baseRef = (
+    await resolveBaseRef(repoRoot, {
+      configuredBase: settings.baseBranch,
+      currentBranch: repo.state.HEAD?.name,
+      upstream: repo.state.HEAD?.upstream?.name,
+      selectedBase: getSelectedBaseRef(context, repoRoot, repo.state.HEAD?.name),
+      strategies: settings.baseRefStrategies,
+      defaultBranchNames: settings.defaultBranchNames
+    })
+  )?.ref;
+  if (!baseRef) {
+    void vscode.window.showWarningMessage(
+      "Branch Change Tabs: a valid base branch/ref could not be resolved in this repository."
+    );
+    return;
+  }
+
+  const repoRelativePath = path.relative(repoRoot, fileUri.fsPath).split(path.sep).join("/");
+  const hunks =
+    (await getWorkingTreeHunks(repoRoot, baseRef, [repoRelativePath], { mergeBase: true })).get(
+      repoRelativePath
+    ) ?? [];
+  if (hunks.length === 0) {
+    void vscode.window.showInformationMessage(
+      `Branch Change Tabs: "${repoRelativePath}" has no changes against ${baseRef}.`
+    );
+    return;
+  }
+
+  const currentLine = editor.selection.active.line + 1;
+  let index: number;
+  if (direction === "next") {
+    index = hunks.findIndex((hunk) => hunk.startLine > currentLine);
+    index = index === -1 ? 0 : index;
+  } else {
+    index = findLastIndex(hunks, (hunk) => hunk.startLine < currentLine);
+    index = index === -1 ? hunks.length - 1 : index;
+  }
+
+  revealLine(editor, hunks[index].startLine);
+  vscode.window.setStatusBarMessage(
+    `Branch hunk ${index + 1} of ${hunks.length} (vs ${baseRef})`,
+    3000
+  );
+}
+
+/**
+ * Places the cursor at the start of a 1-based line and centers it when off screen.
+ */
+function revealLine(editor: vscode.TextEditor, line: number): void {
+  const lineIndex = Math.min(Math.max(line, 1), editor.document.lineCount) - 1;
+  const position = new vscode.Position(lineIndex, 0);
+  editor.selection = new vscode.Selection(position, position);
+  editor.revealRange(
+    new vscode.Range(position, position),
+    vscode.TextEditorRevealType.InCenterIfOutsideViewport
+  );
+}
+
+/**
+ * Returns the index of the last element matching the predicate, or -1.
+ */
+function findLastIndex<T>(items: T[], predicate: (item: T) => boolean): number {
+  for (let index = items.length - 1; index >= 0; index -= 1) {
+    if (predicate(items[index])) {
+      return index;
+    }
+  }
+  return -1;
+}
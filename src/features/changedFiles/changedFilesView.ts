@@ -1,25 +1,63 @@
 import * as vscode from "vscode";
 import * as path from "path";
-import { Repository, ChangedFile } from "../../core/types";
-import { getExtensionSettings } from "../../core/settings";
 import {
-  resolveBaseRef,
-  getChangedFiles,
-  filterChangedFilesByCurrentAuthor
-} from "../../git/gitDiff";
+  Repository,
+  BaseRefSource,
+  ChangedFile,
+  ChangeType,
+  ChangedFilesViewMode
+} from "../../core/types";
+import { getExtensionSettings, getIncludedChangeTypes } from "../../core/settings";
+import { matchesAnyPattern } from "../../core/patterns";
+import { getChangedFiles } from "../../git/gitDiff";
+import { getHeadState } from "../../git/head";
+import { resolveBaseRef } from "../../git/baseRef";
+import { filterChangedFilesByCurrentAuthor } from "../../git/authorship";
 import {
   filterByTypeOfChange,
   filterExcludedFiles,
   filterExcludedDirectories,
+  filterBranchTabsIgnoredFiles,
   filterGitIgnoredFilesDirectories
 } from "../../git/filters";
+import { rankChangedFiles } from "../../git/ranking";
+import { isWorkspaceIgnoredPath } from "../../state/ignoredFiles";
 
 const REFRESH_DEBOUNCE_MS = 750;
+const CHANGE_TYPE_ICONS: Record<ChangeType, string> = {
+  modified: "diff-modified",
+  added: "diff-added",
+  renamed: "diff-renamed",
+  copied: "copy",
+  deleted: "diff-removed",
+  typeChanged: "file-symlink-file",
+  unmerged: "git-merge"
+};
+const BASE_SOURCE_LABELS: Record<BaseRefSource, string> = {
+  selected: "selected",
+  configured: "settings",
+  upstream: "upstream",
+  nearestAncestor: "parent branch",
+  defaultBranch: "default branch"
+};
 export const CHANGED_FILE_TREE_ITEM_CONTEXT = "branchTabs.changedFile";
 export const CHANGED_FILE_IGNORED_TREE_ITEM_CONTEXT = "branchTabs.changedFileIgnored";
+export const CHANGED_FILE_DELETED_TREE_ITEM_CONTEXT = "branchTabs.changedFileDeleted";
+export const CHANGED_FOLDER_TREE_ITEM_CONTEXT = "branchTabs.changedFolder";
+export const CHANGED_REPOSITORY_TREE_ITEM_CONTEXT = "branchTabs.changedRepository";
 export const COMMAND_VIEW_OPEN_FILE = "branchTabs.changedFiles.openFile";
+export const COMMAND_VIEW_SHOW_DIFF_MAIN = "branchTabs.changedFiles.showDiffMain";
 export const COMMAND_VIEW_SEARCH_FILES = "branchTabs.changedFiles.search";
 
+type RepositoryData = {
+  items: vscode.TreeItem[];
+  // Changed files in view order before the search filter is applied.
+  files?: ChangedFile[];
+  branch?: string;
+  baseRef?: string;
+  baseSource?: BaseRefSource;
+};
+
 export class ChangedFilesView implements vscode.TreeDataProvider<vscode.TreeItem> {
   private readonly onDidChangeTreeDataEmitter = new vscode.EventEmitter<void>();
   readonly onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
@@ -27,32 +65,40 @@ export class ChangedFilesView implements vscode.TreeDataProvider<vscode.TreeItem
   private loading = false;
   private inflight?: Promise<void>;
   private cachedItems: vscode.TreeItem[] | null = null;
+  private readonly repositoryCache = new Map<string, RepositoryData>();
   private viewVisible = true;
   private pendingRefresh = false;
   private searchQuery = "";
+  private headerDescription?: string;
 
   constructor(
     private readonly getRepository: () => Repository | undefined,
-    private readonly getWorkspaceIgnoredFilesForRepo: (repoRoot: string) => Set<string>
+    private readonly getRepositories: () => Repository[],
+    private readonly getWorkspaceIgnoredFilesForRepo: (repoRoot: string) => Set<string>,
+    private readonly getSelectedBaseRefForBranch: (
+      repoRoot: string,
+      branch: string | undefined
+    ) => string | undefined
   ) {}
 
   /**
    * Signals the view to refresh, debounced to avoid rapid git calls.
+   * When a repository root is given only that repository's cached results are discarded.
    */
-  refresh(): void {
-    if (!this.viewVisible) {
-      this.pendingRefresh = true;
-      return;
-    }
-    if (this.refreshTimer) {
-      clearTimeout(this.refreshTimer);
+  refresh(repoRoot?: string): void {
+    if (repoRoot) {
+      this.repositoryCache.delete(repoRoot);
+    } else {
+      this.repositoryCache.clear();
     }
+    this.scheduleLoad();
+  }
 
-    // Debounce to avoid hammering git on rapid status changes.
-    this.refreshTimer = setTimeout(() => {
-      this.refreshTimer = undefined;
-      void this.loadData();
-    }, REFRESH_DEBOUNCE_MS);
+  /**
+   * Re-renders the view for the current active repository, reusing cached results.
+   */
+  refreshLayout(): void {
+    this.scheduleLoad();
   }
 
   /**
@@ -66,10 +112,17 @@ export class ChangedFilesView implements vscode.TreeDataProvider<vscode.TreeItem
     }
     if (visible && this.pendingRefresh) {
       this.pendingRefresh = false;
-      this.refresh();
+      this.scheduleLoad();
     }
   }
 
+  /**
+   * Returns the view header text describing the branch and the base ref in effect.
+   */
+  getHeaderDescription(): string | undefined {
+    return this.headerDescription;
+  }
+
   /**
    * Returns the active search query for this view.
    */
@@ -87,6 +140,7 @@ export class ChangedFilesView implements vscode.TreeDataProvider<vscode.TreeItem
     }
     this.searchQuery = normalized;
     this.cachedItems = null;
+    this.repositoryCache.clear();
     if (this.viewVisible) {
       void this.loadData();
       return;
@@ -94,6 +148,25 @@ export class ChangedFilesView implements vscode.TreeDataProvider<vscode.TreeItem
     this.pendingRefresh = true;
   }
 
+  /**
+   * Returns the non-ignored changed files of a repository in view order, together with the base
+   * ref they were diffed against. The diff is run again rather than read from the view's cache,
+   * and the search filter is not applied, so every current branch change is returned. Undefined
+   * when the repository has no base ref.
+   */
+  async getBranchChangedFiles(
+    repo: Repository
+  ): Promise<{ baseRef: string; files: ChangedFile[] } | undefined> {
+    const data = await this.loadRepositoryData(repo);
+    if (!data.baseRef) {
+      return undefined;
+    }
+
+    const workspaceIgnored = this.getWorkspaceIgnoredFilesForRepo(repo.rootUri.fsPath);
+    const files = (data.files ?? []).filter((file) => !isWorkspaceIgnoredPath(file.path, workspaceIgnored));
+    return { baseRef: data.baseRef, files };
+  }
+
   /**
    * Returns the tree item used by VS Code for rendering.
    */
@@ -102,10 +175,12 @@ export class ChangedFilesView implements vscode.TreeDataProvider<vscode.TreeItem
   }
 
   /**
-   * Loads the root children for the view.
+   * Loads the root children for the view, or the children of a repository or folder node.
    */
   async getChildren(element?: vscode.TreeItem): Promise<vscode.TreeItem[]> {
-    if (element) {
+    if (element instanceof ChangedRepositoryItem || element instanceof ChangedFolderItem) {
+      return element.children;
+    } else if (element) {
       return [];
     }
 
@@ -120,6 +195,22 @@ export class ChangedFilesView implements vscode.TreeDataProvider<vscode.TreeItem
     return this.cachedItems ?? [createPlaceholderItem("Loading changed files...")];
   }
 
+  private scheduleLoad(): void {
+    if (!this.viewVisible) {
+      this.pendingRefresh = true;
+      return;
+    }
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+    }
+
+    // Debounce to avoid hammering git on rapid status changes.
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = undefined;
+      void this.loadData();
+    }, REFRESH_DEBOUNCE_MS);
+  }
+
   private async loadData(): Promise<void> {
     if (this.inflight) {
       return this.inflight;
@@ -141,84 +232,270 @@ export class ChangedFilesView implements vscode.TreeDataProvider<vscode.TreeItem
   }
 
   private async loadDataInternal(): Promise<void> {
+    const settings = getExtensionSettings();
+    if (settings.changedFilesShowAllRepositories) {
+      const repositories = this.getRepositories();
+      if (repositories.length === 0) {
+        this.cachedItems = [createPlaceholderItem("No git repository detected.")];
+        return;
+      }
+
+      // Each repository node shows its own branch and base ref.
+      this.headerDescription = undefined;
+      const repositoryItems: vscode.TreeItem[] = [];
+      for (const repo of repositories) {
+        const data = await this.getRepositoryData(repo);
+        repositoryItems.push(new ChangedRepositoryItem(repo, data, describeBase(data)));
+      }
+      this.cachedItems = repositoryItems;
+      return;
+    }
+
     const repo = this.getRepository();
     if (!repo) {
+      this.headerDescription = undefined;
       this.cachedItems = [createPlaceholderItem("No git repository detected.")];
       return;
     }
+    const data = await this.getRepositoryData(repo);
+    this.headerDescription = describeBase(data);
+    this.cachedItems = data.items;
+  }
+
+  private async getRepositoryData(repo: Repository): Promise<RepositoryData> {
+    const repoRoot = repo.rootUri.fsPath;
+    const cached = this.repositoryCache.get(repoRoot);
+    if (cached) {
+      return cached;
+    }
 
+    const data = await this.loadRepositoryData(repo);
+    this.repositoryCache.set(repoRoot, data);
+    return data;
+  }
+
+  private async loadRepositoryData(repo: Repository): Promise<RepositoryData> {
     const settings = getExtensionSettings();
-    const branchName = repo.state.HEAD?.name;
-    if (!branchName) {
-      this.cachedItems = [createPlaceholderItem("No active branch detected.")];
-      return;
-    } else if (settings.baseBranch === branchName) {
-      this.cachedItems = [
-        createPlaceholderItem(
-          `Currently on "${branchName}", which is the base branch. Checkout to another branch to see items here.`
-        )
-      ];
-      return;
-    } else if (settings.excludedBranches.includes(branchName)) {
-      this.cachedItems = [createPlaceholderItem(`Branch "${branchName}" excluded by settings.`)];
-      return;
+    const head = await getHeadState(repo);
+    if (!head) {
+      return { items: [createPlaceholderItem("No active branch or commit detected.")] };
+    }
+
+    // Detached HEADs are diffed by commit SHA and shown by tag name or short SHA.
+    const branchName = head.branch;
+    const headLabel = head.detached ? `${head.label} (detached)` : head.label;
+    if (branchName && settings.baseBranch === branchName) {
+      return {
+        branch: branchName,
+        items: [
+          createPlaceholderItem(
+            `Currently on "${branchName}", which is the base branch. Checkout to another branch to see items here.`
+          )
+        ]
+      };
+    } else if (branchName && matchesAnyPattern(branchName, settings.excludedBranches, "branch")) {
+      return {
+        branch: branchName,
+        items: [createPlaceholderItem(`Branch "${branchName}" excluded by settings.`)]
+      };
     }
 
     const repoRoot = repo.rootUri.fsPath;
-    const baseRef = await resolveBaseRef(
-      repoRoot,
-      settings.baseBranch,
-      branchName,
-      repo.state.HEAD?.upstream?.name
-    );
-    if (!baseRef) {
-      this.cachedItems = [createPlaceholderItem("No base ref found for diff.")];
-      return;
+    const baseResolution = await resolveBaseRef(repoRoot, {
+      configuredBase: settings.baseBranch,
+      currentBranch: branchName,
+      upstream: repo.state.HEAD?.upstream?.name,
+      selectedBase: this.getSelectedBaseRefForBranch(repoRoot, branchName),
+      strategies: settings.baseRefStrategies,
+      defaultBranchNames: settings.defaultBranchNames
+    });
+    if (!baseResolution) {
+      return { branch: headLabel, items: [createPlaceholderItem("No base ref found for diff.")] };
     }
 
-    const changedFiles = await getChangedFiles(repoRoot, baseRef, branchName);
+    const baseRef = baseResolution.ref;
+    const baseSource = baseResolution.source;
+    const withPlaceholder = (label: string): RepositoryData => ({
+      branch: headLabel,
+      baseRef,
+      baseSource,
+      items: [createPlaceholderItem(label)]
+    });
+
+    const changedFiles = await getChangedFiles(
+      repoRoot,
+      baseRef,
+      head.ref,
+      settings.includeWorkingTreeChanges
+    );
     if (!changedFiles.length) {
-      this.cachedItems = [createPlaceholderItem("No changes detected vs base branch.")];
-      return;
+      return withPlaceholder("No changes detected vs base branch.");
     }
 
-    const ownedFiles = await filterChangedFilesByCurrentAuthor(repoRoot, branchName, changedFiles);
+    const ownedFiles = await filterChangedFilesByCurrentAuthor(
+      repoRoot,
+      baseRef,
+      head.ref,
+      changedFiles,
+      { mode: settings.authorFilterMode, extraIdentities: settings.authorIdentities }
+    );
     if (!ownedFiles.length) {
-      this.cachedItems = [createPlaceholderItem("No changes owned by the current git author.")];
-      return;
+      return withPlaceholder("No changes owned by the current git author.");
     }
 
-    const selectableFiles = filterByTypeOfChange(
-      ownedFiles,
-      settings.includeModifiedFiles,
-      settings.includeNewlyTrackedFiles
-    );
+    const selectableFiles = filterByTypeOfChange(ownedFiles, getIncludedChangeTypes(settings));
     const filteredFiles = filterExcludedFiles(
       filterExcludedDirectories(selectableFiles, settings.excludedDirectories),
       settings.excludedFiles
     );
     if (!filteredFiles.length) {
-      this.cachedItems = [createPlaceholderItem("All changes filtered by settings.")];
-      return;
+      return withPlaceholder("All changes filtered by settings.");
     }
 
     const gitIgnoredFiltered = await filterGitIgnoredFilesDirectories(repoRoot, filteredFiles);
     if (!gitIgnoredFiltered.length) {
-      this.cachedItems = [createPlaceholderItem("All changes are ignored by .gitignore.")];
-      return;
+      return withPlaceholder("All changes are ignored by .gitignore.");
     }
 
-    const searchFiltered = filterFilesBySearch(gitIgnoredFiltered, this.searchQuery);
+    const branchTabsIgnoredFiltered = await filterBranchTabsIgnoredFiles(repoRoot, gitIgnoredFiltered);
+    if (!branchTabsIgnoredFiltered.length) {
+      return withPlaceholder("All changes are ignored by .branchtabsignore.");
+    }
+
+    const orderedFiles = settings.changedFilesSortByRanking
+      ? await rankChangedFiles(
+          repoRoot,
+          baseRef,
+          head.ref,
+          branchTabsIgnoredFiltered,
+          settings.fileRankingStrategy
+        )
+      : branchTabsIgnoredFiltered;
+    const searchFiltered = filterFilesBySearch(orderedFiles, this.searchQuery);
     if (!searchFiltered.length) {
-      this.cachedItems = [createPlaceholderItem(`No changed files match search "${this.searchQuery}".`)];
-      return;
+      return {
+        ...withPlaceholder(`No changed files match search "${this.searchQuery}".`),
+        files: orderedFiles
+      };
     }
 
     const workspaceIgnored = this.getWorkspaceIgnoredFilesForRepo(repoRoot);
-    this.cachedItems = searchFiltered.map((file) =>
-      createChangedFileItem(file, repoRoot, workspaceIgnored.has(file.path))
+    return {
+      branch: headLabel,
+      baseRef,
+      baseSource,
+      files: orderedFiles,
+      items: buildChangedFileItems(searchFiltered, repoRoot, workspaceIgnored, {
+        mode: settings.changedFilesViewMode,
+        sortByPath: !settings.changedFilesSortByRanking
+      })
+    };
+  }
+}
+
+type FolderNode = {
+  folders: Map<string, FolderNode>;
+  files: ChangedFile[];
+};
+
+type LayoutOptions = {
+  mode: ChangedFilesViewMode;
+  sortByPath: boolean;
+};
+
+/**
+ * Builds root tree items as a flat list or a folder hierarchy depending on the view mode.
+ * When not sorting by path, files keep their incoming (ranked) order within each folder.
+ */
+function buildChangedFileItems(
+  files: ChangedFile[],
+  repoRoot: string,
+  workspaceIgnored: Set<string>,
+  layout: LayoutOptions
+): vscode.TreeItem[] {
+  if (layout.mode === "flat") {
+    return files.map((file) =>
+      createChangedFileItem(file, repoRoot, isWorkspaceIgnoredPath(file.path, workspaceIgnored))
     );
   }
+
+  const root: FolderNode = { folders: new Map(), files: [] };
+  for (const file of files) {
+    const segments = file.path.split("/");
+    segments.pop();
+    let node = root;
+    for (const segment of segments) {
+      let child = node.folders.get(segment);
+      if (!child) {
+        child = { folders: new Map(), files: [] };
+        node.folders.set(segment, child);
+      }
+      node = child;
+    }
+    node.files.push(file);
+  }
+
+  return buildFolderChildren(root, "", repoRoot, workspaceIgnored, layout.sortByPath);
+}
+
+/**
+ * Converts a folder node into tree items, compacting single-child folder chains.
+ */
+function buildFolderChildren(
+  node: FolderNode,
+  parentPath: string,
+  repoRoot: string,
+  workspaceIgnored: Set<string>,
+  sortByPath: boolean
+): vscode.TreeItem[] {
+  const folderItems: vscode.TreeItem[] = [];
+  const sortedFolders = [...node.folders.entries()].sort(([a], [b]) => a.localeCompare(b));
+  for (const [name, folder] of sortedFolders) {
+    let label = name;
+    let compacted = folder;
+    // Compact "a/b/c" chains the way the SCM view does.
+    while (compacted.files.length === 0 && compacted.folders.size === 1) {
+      const [childName, child] = [...compacted.folders.entries()][0];
+      label = `${label}/${childName}`;
+      compacted = child;
+    }
+    const folderPath = parentPath ? `${parentPath}/${label}` : label;
+    const children = buildFolderChildren(
+      compacted,
+      folderPath,
+      repoRoot,
+      workspaceIgnored,
+      sortByPath
+    );
+    folderItems.push(new ChangedFolderItem(label, folderPath, repoRoot, children));
+  }
+
+  const files = sortByPath ? [...node.files].sort((a, b) => a.path.localeCompare(b.path)) : node.files;
+  const fileItems = files.map(
+    (file) =>
+      new ChangedFileItem(
+        file,
+        repoRoot,
+        isWorkspaceIgnoredPath(file.path, workspaceIgnored),
+        getTreeFileLabel(file)
+      )
+  );
+
+  return [...folderItems, ...fileItems];
+}
+
+/**
+ * Returns the label for a file nested under its folder node; renamed and copied files show their
+ * source path.
+ */
+function getTreeFileLabel(file: ChangedFile): string {
+  const name = path.posix.basename(file.path);
+  if (!file.oldPath) {
+    return name;
+  }
+
+  const sameFolder = path.posix.dirname(file.oldPath) === path.posix.dirname(file.path);
+  return `${sameFolder ? path.posix.basename(file.oldPath) : file.oldPath} → ${name}`;
 }
 
 /**
@@ -228,6 +505,18 @@ function createChangedFileItem(file: ChangedFile, repoRoot: string, ignored: boo
   return new ChangedFileItem(file, repoRoot, ignored);
 }
 
+/**
+ * Describes the branch and base ref in effect, e.g. "feature ← origin/main (upstream)".
+ */
+function describeBase(data: RepositoryData): string | undefined {
+  if (!data.baseRef) {
+    return data.branch;
+  }
+
+  const source = data.baseSource ? ` (${BASE_SOURCE_LABELS[data.baseSource]})` : "";
+  return `${data.branch ?? "?"} ← ${data.baseRef}${source}`;
+}
+
 /**
  * Applies a case-insensitive path filter for view search.
  */
@@ -236,7 +525,27 @@ function filterFilesBySearch(files: ChangedFile[], query: string): ChangedFile[]
     return files;
   }
 
-  return files.filter((file) => file.path.toLowerCase().includes(query));
+  return files.filter(
+    (file) =>
+      file.path.toLowerCase().includes(query) ||
+      Boolean(file.oldPath && file.oldPath.toLowerCase().includes(query))
+  );
+}
+
+/**
+ * Describes a change kind, noting working-tree sources when present.
+ */
+function describeChange(file: ChangedFile): string {
+  const kindLabel =
+    file.similarity !== undefined && (file.kind === "renamed" || file.kind === "copied")
+      ? `${file.kind} ${file.similarity}%`
+      : file.kind;
+  const workingTreeSources = file.sources.filter((source) => source !== "committed");
+  if (workingTreeSources.length === 0) {
+    return kindLabel;
+  }
+
+  return `${kindLabel} · ${workingTreeSources.join(", ")}`;
 }
 
 /**
@@ -255,25 +564,100 @@ export class ChangedFileItem extends vscode.TreeItem {
   constructor(
     readonly changedFile: ChangedFile,
     readonly repoRoot: string,
-    readonly ignored: boolean
+    readonly ignored: boolean,
+    label?: string
   ) {
-    super(changedFile.path, vscode.TreeItemCollapsibleState.None);
+    super(
+      label ??
+        (changedFile.oldPath
+          ? `${changedFile.oldPath} → ${changedFile.path}`
+          : changedFile.path),
+      vscode.TreeItemCollapsibleState.None
+    );
+    const deleted = changedFile.kind === "deleted";
     this.fileUri = vscode.Uri.file(path.join(repoRoot, changedFile.path));
-    this.contextValue = ignored
-      ? CHANGED_FILE_IGNORED_TREE_ITEM_CONTEXT
-      : CHANGED_FILE_TREE_ITEM_CONTEXT;
+    if (deleted) {
+      this.contextValue = CHANGED_FILE_DELETED_TREE_ITEM_CONTEXT;
+    } else {
+      this.contextValue = ignored
+        ? CHANGED_FILE_IGNORED_TREE_ITEM_CONTEXT
+        : CHANGED_FILE_TREE_ITEM_CONTEXT;
+    }
     this.resourceUri = this.fileUri;
-    this.description = ignored ? `${changedFile.kind} (ignored)` : changedFile.kind;
+    const changeLabel = describeChange(changedFile);
+    this.description = ignored ? `${changeLabel} (ignored)` : changeLabel;
     this.iconPath = ignored
       ? new vscode.ThemeIcon("eye-closed")
-      : new vscode.ThemeIcon(changedFile.kind === "added" ? "diff-added" : "diff-modified");
+      : new vscode.ThemeIcon(CHANGE_TYPE_ICONS[changedFile.kind]);
+    const tooltipLines = [changedFile.path];
+    if (changedFile.oldPath) {
+      tooltipLines.push(`From: ${changedFile.oldPath}`);
+    }
+    tooltipLines.push(`Source: ${changedFile.sources.join(", ")}`);
     if (ignored) {
-      this.tooltip = `${changedFile.path}\nIgnored for branch auto-open/pin.`;
+      tooltipLines.push("Ignored for branch auto-open/pin.");
     }
-    this.command = {
-      command: COMMAND_VIEW_OPEN_FILE,
-      title: "Open File",
-      arguments: [this]
-    };
+    this.tooltip = tooltipLines.join("\n");
+    this.command = deleted
+      ? { command: COMMAND_VIEW_SHOW_DIFF_MAIN, title: "See Diff", arguments: [this] }
+      : { command: COMMAND_VIEW_OPEN_FILE, title: "Open File", arguments: [this] };
+  }
+}
+
+export class ChangedFolderItem extends vscode.TreeItem {
+  readonly fileItems: ChangedFileItem[];
+
+  constructor(
+    label: string,
+    readonly folderPath: string,
+    readonly repoRoot: string,
+    readonly children: vscode.TreeItem[]
+  ) {
+    super(label, vscode.TreeItemCollapsibleState.Expanded);
+    this.id = `${repoRoot}::${folderPath}`;
+    this.contextValue = CHANGED_FOLDER_TREE_ITEM_CONTEXT;
+    this.resourceUri = vscode.Uri.file(path.join(repoRoot, folderPath));
+    this.iconPath = vscode.ThemeIcon.Folder;
+    this.fileItems = children.flatMap((child) => {
+      if (child instanceof ChangedFolderItem) {
+        return child.fileItems;
+      }
+      return child instanceof ChangedFileItem ? [child] : [];
+    });
+
+    const countsByKind = new Map<ChangeType, number>();
+    for (const item of this.fileItems) {
+      const kind = item.changedFile.kind;
+      countsByKind.set(kind, (countsByKind.get(kind) ?? 0) + 1);
+    }
+    const breakdown = [...countsByKind.entries()].map(([kind, count]) => `${count} ${kind}`);
+    this.description = `${this.fileItems.length} file${this.fileItems.length === 1 ? "" : "s"}`;
+    this.tooltip = [folderPath, ...breakdown].join("\n");
+  }
+}
+
+export class ChangedRepositoryItem extends vscode.TreeItem {
+  readonly repoRoot: string;
+  readonly branch?: string;
+  readonly baseRef?: string;
+  readonly children: vscode.TreeItem[];
+
+  constructor(readonly repository: Repository, data: RepositoryData, description?: string) {
+    super(path.basename(repository.rootUri.fsPath), vscode.TreeItemCollapsibleState.Expanded);
+    this.repoRoot = repository.rootUri.fsPath;
+    this.branch = data.branch;
+    this.baseRef = data.baseRef;
+    this.children = data.items;
+    this.id = this.repoRoot;
+    this.contextValue = CHANGED_REPOSITORY_TREE_ITEM_CONTEXT;
+    this.iconPath = new vscode.ThemeIcon("repo");
+    this.description = description;
+    this.tooltip = [
+      this.repoRoot,
+      `Branch: ${data.branch ?? "(none)"}`,
+      `Base: ${data.baseRef ?? "(unresolved)"}${
+        data.baseSource ? ` (${BASE_SOURCE_LABELS[data.baseSource]})` : ""
+      }`
+    ].join("\n");
   }
 }
@@ -1,75 +1,277 @@
 import * as vscode from "vscode";
 import * as path from "path";
-import { Repository } from "../../core/types";
+import {
+  ChangedFile,
+  ExtensionSEttings,
+  GitRepositoryState,
+  OpenMode,
+  Repository
+} from "../../core/types";
 import { output } from "../../core/logger";
-import { getExtensionSettings } from "../../core/settings";
+import {
+  getExtensionSettings,
+  getIncludedChangeTypes,
+  shouldPinChangeType
+} from "../../core/settings";
+import { matchesAnyPattern } from "../../core/patterns";
+import { raceCancellation, throwIfCancelled } from "../../core/cancellation";
 import { isRepositoryEnabledOnInitialCheckout } from "../../state/repoEnablement";
-import { resolveBaseRef, getChangedFiles, filterChangedFilesByCurrentAuthor } from "../../git/gitDiff";
+import { getChangedFiles, getMergeBase } from "../../git/gitDiff";
+import { toBaseContentUri } from "../../git/baseContentProvider";
+import { getWorkingTreeHunks } from "../../git/hunks";
+import { resolveBaseRef } from "../../git/baseRef";
+import { getHeadRef } from "../../git/head";
+import { filterChangedFilesByCurrentAuthor } from "../../git/authorship";
 import {
   filterByTypeOfChange,
   filterExcludedFiles,
   filterExcludedDirectories,
+  filterBranchTabsIgnoredFiles,
   filterGitIgnoredFilesDirectories,
   filterTextFiles
 } from "../../git/filters";
-import { closeExtensionOpenedFiles, closeExtensionPinnedFiles } from "../../ui/ui";
+import { getLineStats, LineStats, rankChangedFiles } from "../../git/ranking";
+import { closeTabsForBranchChange, pinExtensionEditor } from "../../ui/ui";
 import { verifyRepositoryState } from "../../state/repoState";
 import { filterWorkspaceIgnoredFiles } from "../../state/ignoredFiles";
+import { getSelectedBaseRef } from "../../state/baseRefSelections";
+import { getPinnedFileSet, setPinnedFileSet } from "../../state/pinnedFileSets";
+import { revealFirstHunk } from "./branchHunks";
+import { stringifyError } from "../../core/errors";
+
+// Pinned file sets the user was already told about, keyed by repository, branch and saved paths.
+const announcedPinnedFileSets = new Set<string>();
 
 /**
- * Opens changed files for a repository using current configuration.
+ * Opens changed files for a repository using current configuration. The openable files are
+ * recorded as the repository's branch diff; when previousDiffFiles is given, only files that
+ * are not in it are opened. The token is checked between steps and before each file is opened.
  */
 export async function openRepositoryChangedFiles(
   repo: Repository,
-  options: { ignoreEnablement: boolean; workspaceIgnoredFiles?: Set<string> }
+  context: vscode.ExtensionContext,
+  options: {
+    ignoreEnablement: boolean;
+    workspaceIgnoredFiles?: Set<string>;
+    preserveOpenTabs?: boolean;
+    previousDiffFiles?: Set<string>;
+    token?: vscode.CancellationToken;
+  }
 ): Promise<void> {
   const settings = getExtensionSettings();
-  if (settings.excludedBranches.includes(repo.state.HEAD?.name ?? "")) {
-    output.appendLine(`Branch "${repo.state.HEAD?.name}" excluded.`);
+  const branchName = repo.state.HEAD?.name;
+  if (branchName && matchesAnyPattern(branchName, settings.excludedBranches, "branch")) {
+    output.appendLine(`Branch "${branchName}" excluded.`);
     return;
   } else if (!options.ignoreEnablement) {
-    const enabled = await isRepositoryEnabledOnInitialCheckout(repo, settings);
+    const enabled = await isRepositoryEnabledOnInitialCheckout(repo, settings, options.token);
     if (!enabled) {
       output.appendLine(`Repository disabled by user: ${repo.rootUri.fsPath}`);
       return;
     }
   }
 
-  const repoRoot = repo.rootUri.fsPath;
-  const headName = repo.state.HEAD?.name;
-  const baseRef = await resolveBaseRef(
+  throwIfCancelled(options.token);
+  const state = verifyRepositoryState(repo, context);
+  const collected = await collectFilesToOpen(
+    repo,
+    context,
+    settings,
+    options.workspaceIgnoredFiles,
+    options.token
+  );
+  state.branchDiffFiles = new Set(collected?.files.map((file) => file.path) ?? []);
+  if (!collected) {
+    return;
+  }
+
+  const { repoRoot, baseRef, headName } = collected;
+  let filesToConsider = collected.files;
+  const previousDiffFiles = options.previousDiffFiles;
+  if (previousDiffFiles) {
+    filesToConsider = filesToConsider.filter((file) => !previousDiffFiles.has(file.path));
+    if (!filesToConsider.length) {
+      output.appendLine("No files entered the branch diff since the last run.");
+      return;
+    }
+    output.appendLine(`Files that entered the branch diff: ${filesToConsider.length}`);
+  }
+
+  // A saved pinned file set replaces the limit and its prompt whenever any of its files changed.
+  const pinnedSet = new Set(getPinnedFileSet(context, repoRoot, headName) ?? []);
+  const pinnedFiles = filesToConsider.filter((file) => pinnedSet.has(file.path));
+  const usesPinnedFileSet = pinnedFiles.length > 0;
+  if (usesPinnedFileSet) {
+    output.appendLine(`Opening pinned file set for "${headName}": ${pinnedFiles.length} files.`);
+    filesToConsider = pinnedFiles;
+  }
+
+  const exceedsLimit =
+    !usesPinnedFileSet && settings.maxFilesToOpen > 0 && filesToConsider.length > settings.maxFilesToOpen;
+  if (exceedsLimit) {
+    filesToConsider = await rankChangedFiles(
+      repoRoot,
+      baseRef,
+      headName,
+      filesToConsider,
+      settings.fileRankingStrategy
+    );
+    output.appendLine(`Ranked ${filesToConsider.length} files by ${settings.fileRankingStrategy}.`);
+    throwIfCancelled(options.token);
+  }
+
+  let maxToOpen = settings.maxFilesToOpen > 0 && !usesPinnedFileSet ? settings.maxFilesToOpen : Infinity;
+  if (exceedsLimit) {
+    output.appendLine(
+      `Limit exceeded: ${filesToConsider.length} files exceeds maxFilesToOpen=${settings.maxFilesToOpen}`
+    );
+    const choice = await promptUserOnFileLimitExceeded(
+      filesToConsider.length,
+      settings.maxFilesToOpen,
+      options.token
+    );
+    if (!choice) {
+      return;
+    } else if (choice === "choose") {
+      const pickedFiles = await pickFilesToOpen(
+        repoRoot,
+        baseRef,
+        headName,
+        filesToConsider,
+        settings.maxFilesToOpen,
+        options.token
+      );
+      if (!pickedFiles || pickedFiles.length === 0) {
+        return;
+      }
+
+      filesToConsider = pickedFiles;
+      maxToOpen = Infinity;
+      await offerToSavePinnedFileSet(context, repoRoot, headName, pickedFiles, options.token);
+    } else {
+      await promptToChangeMaxFilesToOpen(settings.maxFilesToOpen, options.token);
+    }
+  }
+
+  throwIfCancelled(options.token);
+  if (!options.preserveOpenTabs) {
+    await closeTabsBeforeOpen(state, options.token);
+  }
+
+  // Base diffs start at the merge-base like the branch diff does. Hunks use the same ref as the
+  // diff's left side, so the cursor lands on a visible change.
+  const diffRef =
+    settings.openMode === "diffAgainstHead" ? "HEAD" : (await getMergeBase(repoRoot, baseRef)) ?? baseRef;
+  const hunksByPath = await getWorkingTreeHunks(
     repoRoot,
-    settings.baseBranch,
-    headName,
-    repo.state.HEAD?.upstream?.name
+    diffRef,
+    filesToConsider.slice(0, maxToOpen).map((file) => file.path),
+    { mergeBase: false }
   );
+  throwIfCancelled(options.token);
+
+  let openedCount = 0;
+  for (const file of filesToConsider) {
+    if (openedCount >= maxToOpen) {
+      break;
+    }
+
+    throwIfCancelled(options.token);
+    const fileUri = vscode.Uri.file(path.join(repoRoot, file.path));
+    try {
+      const editor = await openChangedFile(repoRoot, file, fileUri, settings.openMode, diffRef, baseRef);
+      if (editor) {
+        revealFirstHunk(editor, hunksByPath.get(file.path));
+      }
+
+      if (shouldPinChangeType(settings, file.kind)) {
+        await pinExtensionEditor(fileUri);
+      }
+      state.openedFiles.add(fileUri.toString());
+      openedCount += 1;
+    } catch (error) {
+      output.appendLine(`Skipping non-text file "${file.path}": ${stringifyError(error)}`);
+    }
+  }
+
+  if (openedCount === 0) {
+    output.appendLine("No text files were opened.");
+  }
+  if (usesPinnedFileSet) {
+    await notifyPinnedFileSetApplied(
+      context,
+      repoRoot,
+      headName,
+      [...pinnedSet],
+      pinnedFiles.length,
+      options.token
+    );
+  }
+}
+
+/**
+ * Resolves the base ref and runs the branch diff through every filter, returning the files that
+ * may be opened (deleted files excluded). Logs why nothing is left when the result is undefined.
+ * Throws a CancellationError after any git step once the token is cancelled.
+ */
+export async function collectFilesToOpen(
+  repo: Repository,
+  context: vscode.ExtensionContext,
+  settings: ExtensionSEttings,
+  workspaceIgnoredFiles: Set<string> | undefined,
+  token?: vscode.CancellationToken
+): Promise<{ repoRoot: string; baseRef: string; headName: string; files: ChangedFile[] } | undefined> {
+  const repoRoot = repo.rootUri.fsPath;
+  // A detached HEAD is diffed by commit SHA; branch-keyed settings do not apply to it.
+  const headName = getHeadRef(repo);
+  const branchName = repo.state.HEAD?.name;
+  const baseRef = (
+    await resolveBaseRef(repoRoot, {
+      configuredBase: settings.baseBranch,
+      currentBranch: branchName,
+      upstream: repo.state.HEAD?.upstream?.name,
+      selectedBase: getSelectedBaseRef(context, repoRoot, branchName),
+      strategies: settings.baseRefStrategies,
+      defaultBranchNames: settings.defaultBranchNames
+    })
+  )?.ref;
+  throwIfCancelled(token);
   if (!baseRef || !headName) {
     output.appendLine("No base ref found. Skipping diff.");
-    return;
+    return undefined;
   }
 
   output.appendLine(`Using base ref: ${baseRef}`);
 
-  const changedFiles = await getChangedFiles(repoRoot, baseRef, headName);
+  const changedFiles = await getChangedFiles(
+    repoRoot,
+    baseRef,
+    headName,
+    settings.includeWorkingTreeChanges
+  );
+  throwIfCancelled(token);
   if (!changedFiles.length) {
     output.appendLine("No changed files found for branch diff.");
-    return;
+    return undefined;
   }
 
-  const ownedFiles = await filterChangedFilesByCurrentAuthor(repoRoot, headName, changedFiles);
+  const ownedFiles = await filterChangedFilesByCurrentAuthor(
+    repoRoot,
+    baseRef,
+    headName,
+    changedFiles,
+    { mode: settings.authorFilterMode, extraIdentities: settings.authorIdentities }
+  );
+  throwIfCancelled(token);
   if (!ownedFiles.length) {
     output.appendLine("No changed files owned by the current git author.");
-    return;
+    return undefined;
   }
 
-  const selectableFiles = filterByTypeOfChange(
-    ownedFiles,
-    settings.includeModifiedFiles,
-    settings.includeNewlyTrackedFiles
-  );
+  const selectableFiles = filterByTypeOfChange(ownedFiles, getIncludedChangeTypes(settings));
   if (!selectableFiles.length) {
     output.appendLine("No files matched change-type filters.");
-    return;
+    return undefined;
   }
 
   output.appendLine(`Changed files found: ${selectableFiles.length}`);
@@ -80,145 +282,291 @@ export async function openRepositoryChangedFiles(
   );
   if (!filteredFiles.length) {
     output.appendLine("All changed files were excluded by regex.");
-    return;
+    return undefined;
   }
 
   const gitIgnoredFiltered = await filterGitIgnoredFilesDirectories(repoRoot, filteredFiles);
+  throwIfCancelled(token);
   if (!gitIgnoredFiltered.length) {
     output.appendLine("All changed files were excluded by .gitignore.");
-    return;
+    return undefined;
+  }
+  const branchTabsIgnoredFiltered = await filterBranchTabsIgnoredFiles(repoRoot, gitIgnoredFiltered);
+  throwIfCancelled(token);
+  if (!branchTabsIgnoredFiltered.length) {
+    output.appendLine("All changed files were excluded by .branchtabsignore.");
+    return undefined;
   }
   const workspaceIgnoredFiltered = filterWorkspaceIgnoredFiles(
-    gitIgnoredFiltered,
-    options.workspaceIgnoredFiles ?? new Set<string>()
+    branchTabsIgnoredFiltered,
+    workspaceIgnoredFiles ?? new Set<string>()
   );
   if (!workspaceIgnoredFiltered.length) {
     output.appendLine("All changed files were excluded by workspace ignore list.");
-    return;
+    return undefined;
   }
 
   output.appendLine(`Files after regex filter: ${filteredFiles.length}`);
   output.appendLine(`Files after .gitignore filter: ${gitIgnoredFiltered.length}`);
+  output.appendLine(`Files after .branchtabsignore filter: ${branchTabsIgnoredFiltered.length}`);
   output.appendLine(`Files after workspace ignore filter: ${workspaceIgnoredFiltered.length}`);
 
-  let filesToConsider = workspaceIgnoredFiltered;
+  // Deleted files are listed in the view with a diff action but are never opened as editors.
+  let files = workspaceIgnoredFiltered.filter((file) => file.kind !== "deleted");
+  if (!files.length) {
+    output.appendLine("Only deleted files remain; nothing to open.");
+    return undefined;
+  }
   if (settings.textFilesOnly) {
-    filesToConsider = await filterTextFiles(repoRoot, workspaceIgnoredFiltered);
-    output.appendLine(`Text files after filter: ${filesToConsider.length}`);
+    files = await filterTextFiles(repoRoot, files);
+    throwIfCancelled(token);
+    output.appendLine(`Text files after filter: ${files.length}`);
 
-    if (filesToConsider.length === 0) {
+    if (files.length === 0) {
       output.appendLine("No text files found for branch diff.");
-      return;
+      return undefined;
     }
   }
 
-  const maxToOpen = settings.maxFilesToOpen > 0 ? settings.maxFilesToOpen : Infinity;
-  if (settings.maxFilesToOpen > 0 && filesToConsider.length > settings.maxFilesToOpen) {
-    output.appendLine(
-      `Limit exceeded: ${filesToConsider.length} files exceeds maxFilesToOpen=${settings.maxFilesToOpen}`
-    );
-    const shouldOpen = await promptUserOnFileLimitExceeded(
-      filesToConsider.length,
-      settings.maxFilesToOpen
-    );
-    if (!shouldOpen) {
-      return;
-    }
+  return { repoRoot, baseRef, headName, files };
+}
+
+/**
+ * Closes previously opened tabs according to the close-on-switch and dirty tab settings.
+ * A cancelled token answers a pending dirty tab prompt with "Keep Open".
+ */
+export async function closeTabsBeforeOpen(
+  state: GitRepositoryState,
+  token?: vscode.CancellationToken
+): Promise<void> {
+  const settings = getExtensionSettings();
+  await closeTabsForBranchChange(
+    state,
+    { pinnedOnly: settings.closePinnedTabsOnBranchChange, closeAll: settings.closeAllBeforeOpen },
+    settings.dirtyTabPolicy,
+    token
+  );
+}
+
+/**
+ * Prompts whether to open the top-ranked files, choose files by hand, or cancel when the max
+ * limit is exceeded.
+ */
+async function promptUserOnFileLimitExceeded(
+  totalFiles: number,
+  limit: number,
+  token: vscode.CancellationToken | undefined
+): Promise<"open" | "choose" | undefined> {
+  const choice = await raceCancellation(
+    vscode.window.showWarningMessage(
+      `Branch Change Tabs: ${totalFiles} files changed, which exceeds the limit (${limit}). Open up to ${limit} files?`,
+      "Open",
+      "Choose Files...",
+      "Cancel"
+    ),
+    token
+  );
 
-    const scopeChoice = await vscode.window.showInformationMessage(
+  if (choice === "Open") {
+    return "open";
+  } else if (choice === "Choose Files...") {
+    return "choose";
+  }
+  return undefined;
+}
+
+/**
+ * Asks whether to change maxFilesToOpen and in which scope.
+ */
+async function promptToChangeMaxFilesToOpen(
+  currentValue: number,
+  token: vscode.CancellationToken | undefined
+): Promise<void> {
+  const scopeChoice = await raceCancellation(
+    vscode.window.showInformationMessage(
       "Change the max files to open?",
       "No",
       "This Workspace",
       "User (Global)"
-    );
+    ),
+    token
+  );
 
-    if (scopeChoice === "This Workspace" || scopeChoice === "User (Global)") {
-      const newValue = await vscode.window.showInputBox({
-        prompt: "Enter new maxFilesToOpen value",
-        value: String(settings.maxFilesToOpen),
-        validateInput: (value) => {
-          const parsed = Number(value);
-          if (!Number.isFinite(parsed) || parsed < 0 || !Number.isInteger(parsed)) {
-            return "Enter a whole number (0 or greater).";
-          }
-
-          return undefined;
-        }
-      });
-
-      if (newValue !== undefined) {
-        const parsed = Number(newValue);
-        const config = vscode.workspace.getConfiguration("branchTabs");
-        const isGlobal = scopeChoice === "User (Global)";
-
-        await config.update("maxFilesToOpen", parsed, isGlobal);
+  if (scopeChoice !== "This Workspace" && scopeChoice !== "User (Global)") {
+    return;
+  }
+
+  const newValue = await vscode.window.showInputBox({
+    prompt: "Enter new maxFilesToOpen value",
+    value: String(currentValue),
+    validateInput: (value) => {
+      const parsed = Number(value);
+      if (!Number.isFinite(parsed) || parsed < 0 || !Number.isInteger(parsed)) {
+        return "Enter a whole number (0 or greater).";
       }
+
+      return undefined;
     }
-  }
+  }, token);
+  throwIfCancelled(token);
 
-  const state = verifyRepositoryState(repo);
-  settings.closePinnedTabsOnBranchChange
-    ? await closeExtensionPinnedFiles(state)
-    : await closeExtensionOpenedFiles(state);
+  if (newValue !== undefined) {
+    const parsed = Number(newValue);
+    const config = vscode.workspace.getConfiguration("branchTabs");
+    const isGlobal = scopeChoice === "User (Global)";
 
-  if (settings.closeAllBeforeOpen) {
-    await vscode.commands.executeCommand("workbench.action.closeAllEditors");
+    await config.update("maxFilesToOpen", parsed, isGlobal);
   }
+}
 
-  let openedCount = 0;
-  for (const file of filesToConsider) {
-    if (openedCount >= maxToOpen) {
-      break;
-    }
+/**
+ * Lets the user tick which candidate files to open. Files keep their ranked order, and the
+ * top-ranked files up to the limit start selected.
+ */
+async function pickFilesToOpen(
+  repoRoot: string,
+  baseRef: string,
+  headRef: string,
+  files: ChangedFile[],
+  limit: number,
+  token: vscode.CancellationToken | undefined
+): Promise<ChangedFile[] | undefined> {
+  let lineStats = new Map<string, LineStats>();
+  try {
+    lineStats = await getLineStats(repoRoot, baseRef, headRef);
+  } catch (error) {
+    output.appendLine(`Failed to read line stats for file picker: ${stringifyError(error)}`);
+  }
 
-    const fileUri = vscode.Uri.file(path.join(repoRoot, file.path));
-    try {
-      const doc = await vscode.workspace.openTextDocument(fileUri);
-      await vscode.window.showTextDocument(doc, {
-        preview: false,
-        preserveFocus: false,
-        viewColumn: vscode.ViewColumn.Active
-      });
-
-      const shouldPin =
-        file.kind === "modified" ? settings.pinModifiedFiles : settings.pinNewlyTrackedFiles;
-      if (shouldPin) {
-        await vscode.commands.executeCommand("workbench.action.pinEditor");
-      }
-      state.openedFiles.add(fileUri.toString());
-      openedCount += 1;
-    } catch (error) {
-      output.appendLine(`Skipping non-text file "${file.path}": ${stringifyError(error)}`);
+  const items = files.map((file, index) => {
+    const stats = lineStats.get(file.path);
+    const details: string[] = [file.kind];
+    if (stats) {
+      details.push(`+${stats.added} -${stats.deleted}`);
     }
+    return {
+      label: file.path,
+      description: details.join(" · "),
+      picked: index < limit,
+      file
+    };
+  });
+
+  const picked = await vscode.window.showQuickPick(items, {
+    placeHolder: `Select files to open (${files.length} changed, top ${limit} preselected)`,
+    canPickMany: true,
+    matchOnDescription: true
+  }, token);
+  throwIfCancelled(token);
+  if (!picked) {
+    return undefined;
   }
 
-  if (openedCount === 0) {
-    output.appendLine("No text files were opened.");
+  // Quick pick returns selections in list order, which is already the ranked order.
+  return picked.map((item) => item.file);
+}
+
+/**
+ * Offers to remember the chosen files as the branch's pinned file set, which is opened instead of
+ * the branch's changed files from then on.
+ */
+async function offerToSavePinnedFileSet(
+  context: vscode.ExtensionContext,
+  repoRoot: string,
+  branch: string,
+  files: ChangedFile[],
+  token: vscode.CancellationToken | undefined
+): Promise<void> {
+  const choice = await raceCancellation(
+    vscode.window.showInformationMessage(
+      `Branch Change Tabs: save these ${files.length} files as the pinned file set for "${branch}"?`,
+      "Save",
+      "Not Now"
+    ),
+    token
+  );
+  if (choice !== "Save") {
+    return;
   }
+
+  await setPinnedFileSet(context, repoRoot, branch, files.map((file) => file.path));
+  output.appendLine(`Saved pinned file set for "${branch}": ${files.length} files.`);
 }
 
 /**
- * Prompts whether to open files when the max limit is exceeded.
+ * Tells the user a saved pinned file set was opened instead of the branch's changed files, and
+ * offers to clear it. Each saved set is announced once; later runs only log that it was used.
  */
-async function promptUserOnFileLimitExceeded(
-  totalFiles: number,
-  limit: number
-): Promise<boolean> {
-  const choice = await vscode.window.showWarningMessage(
-    `Branch Change Tabs: ${totalFiles} files changed, which exceeds the limit (${limit}). Open up to ${limit} files?`,
-    "Open",
-    "Cancel"
+async function notifyPinnedFileSetApplied(
+  context: vscode.ExtensionContext,
+  repoRoot: string,
+  branch: string,
+  savedPaths: string[],
+  fileCount: number,
+  token?: vscode.CancellationToken
+): Promise<void> {
+  const key = [repoRoot, branch, ...[...savedPaths].sort()].join("\0");
+  if (announcedPinnedFileSets.has(key)) {
+    output.appendLine(`Pinned file set for "${branch}" was already announced; not showing it again.`);
+    return;
+  }
+  announcedPinnedFileSets.add(key);
+
+  const choice = await raceCancellation(
+    vscode.window.showInformationMessage(
+      `Branch Change Tabs: opened the pinned file set saved for "${branch}" (${fileCount} files). ` +
+        'Clear it here or with "Clear Pinned File Set for Current Branch".',
+      "Clear Pinned File Set"
+    ),
+    token
   );
+  if (choice !== "Clear Pinned File Set") {
+    return;
+  }
 
-  return choice === "Open";
+  await setPinnedFileSet(context, repoRoot, branch, undefined);
+  output.appendLine(`Cleared pinned file set for "${branch}".`);
 }
 
 /**
- * Formats an error into a readable message.
+ * Opens a changed file according to the open mode: as a plain editor, or as a diff of the
+ * working-tree file against diffRef (the base merge-base or HEAD). Returns the working-tree editor
+ * when available.
  */
-function stringifyError(error: unknown): string {
-  if (error instanceof Error) {
-    return error.message;
+async function openChangedFile(
+  repoRoot: string,
+  file: ChangedFile,
+  fileUri: vscode.Uri,
+  openMode: OpenMode,
+  diffRef: string,
+  baseRef: string
+): Promise<vscode.TextEditor | undefined> {
+  const options: vscode.TextDocumentShowOptions = {
+    preview: false,
+    preserveFocus: false,
+    viewColumn: vscode.ViewColumn.Active
+  };
+  if (openMode === "file") {
+    const doc = await vscode.workspace.openTextDocument(fileUri);
+    return vscode.window.showTextDocument(doc, options);
   }
-  return String(error);
+
+  // Uncommitted renames only exist under the old path at HEAD; committed ones are at the new path.
+  const leftPath =
+    openMode === "diffAgainstHead" && file.sources.includes("committed")
+      ? file.path
+      : file.oldPath ?? file.path;
+  const leftUri = toBaseContentUri(repoRoot, diffRef, leftPath);
+  const leftLabel = openMode === "diffAgainstBase" ? baseRef : "HEAD";
+  await vscode.commands.executeCommand(
+    "vscode.diff",
+    leftUri,
+    fileUri,
+    `${path.basename(file.path)} (${leftLabel} ↔ Working Tree)`,
+    options
+  );
+
+  // The diff editor focuses its modified (working-tree) side.
+  const editor = vscode.window.activeTextEditor;
+  return editor?.document.uri.toString() === fileUri.toString() ? editor : undefined;
 }
@@ -0,0 +1,353 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { Repository } from "../../core/types";
+import { output } from "../../core/logger";
+import { closeTabsForFile } from "../../ui/ui";
+import { getRepositoryState } from "../../state/repoState";
+import {
+  addWorkspaceIgnoredFile,
+  addWorkspaceIgnoredFiles,
+  getAllWorkspaceIgnoredFiles,
+  IgnoredFilesByRepo,
+  isIgnoredFileGlob,
+  isWorkspaceIgnoredPath,
+  normalizeRepoRoot,
+  removeWorkspaceIgnoredFiles
+} from "../../state/ignoredFiles";
+import { stringifyError } from "../../core/errors";
+
+const EXPORT_FILE_NAME = "branch-tabs-ignored-files.json";
+const EXPORT_FORMAT_VERSION = 1;
+
+type IgnoredEntryQuickPickItem = vscode.QuickPickItem & {
+  repoRoot?: string;
+  entry?: string;
+};
+
+type IgnoredFilesExport = {
+  version: number;
+  repositories: IgnoredFilesByRepo;
+};
+
+/**
+ * Lists ignored entries of every repository and un-ignores the selected ones.
+ * Returns true when entries were removed.
+ */
+export async function showIgnoredFilesPicker(context: vscode.ExtensionContext): Promise<boolean> {
+  const allIgnored = getAllWorkspaceIgnoredFiles(context);
+  const repoRoots = Object.keys(allIgnored).sort();
+  if (repoRoots.length === 0) {
+    void vscode.window.showInformationMessage("Branch Change Tabs: no ignored files in this workspace.");
+    return false;
+  }
+
+  const items: IgnoredEntryQuickPickItem[] = [];
+  for (const repoRoot of repoRoots) {
+    items.push({
+      label: `${path.basename(repoRoot)} — ${repoRoot}`,
+      kind: vscode.QuickPickItemKind.Separator
+    });
+    for (const entry of allIgnored[repoRoot]) {
+      let description: string | undefined;
+      if (isIgnoredFileGlob(entry)) {
+        description = "glob";
+      } else if (!(await doesPathExist(path.join(repoRoot, entry)))) {
+        description = "missing";
+      }
+      items.push({ label: entry, description, repoRoot, entry });
+    }
+  }
+
+  const picked = await vscode.window.showQuickPick(items, {
+    canPickMany: true,
+    matchOnDescription: true,
+    placeHolder: "Ignored files per repository. Select entries to stop ignoring."
+  });
+  if (!picked || picked.length === 0) {
+    return false;
+  }
+
+  let removedCount = 0;
+  for (const [repoRoot, entries] of groupByRepository(picked)) {
+    removedCount += (await removeWorkspaceIgnoredFiles(context, repoRoot, entries)).length;
+  }
+  void vscode.window.showInformationMessage(
+    `Branch Change Tabs: ${removedCount} entr${removedCount === 1 ? "y is" : "ies are"} no longer ignored.`
+  );
+  return removedCount > 0;
+}
+
+/**
+ * Prompts for an exact path or glob to ignore in a repository, closing extension-opened tabs it
+ * now matches. Returns true when the entry was added.
+ */
+export async function addIgnoredPattern(
+  context: vscode.ExtensionContext,
+  repo: Repository
+): Promise<boolean> {
+  const repoRoot = repo.rootUri.fsPath;
+  const value = await vscode.window.showInputBox({
+    prompt: `Repo-relative path or glob to ignore in ${path.basename(repoRoot)}.`,
+    placeHolder: "Example: src/generated/** or *.snap",
+    validateInput: (input) => (input.trim() ? undefined : "Enter a path or glob.")
+  });
+  const entry = value?.trim();
+  if (!entry) {
+    return false;
+  }
+
+  const added = await addWorkspaceIgnoredFile(context, repoRoot, entry);
+  if (!added) {
+    void vscode.window.showInformationMessage(`Branch Change Tabs: "${entry}" is already ignored.`);
+    return false;
+  }
+
+  const state = getRepositoryState(repoRoot);
+  let closedCount = 0;
+  for (const uriString of [...(state?.openedFiles ?? [])]) {
+    const fileUri = vscode.Uri.parse(uriString);
+    const repoRelativePath = path.relative(repoRoot, fileUri.fsPath).split(path.sep).join("/");
+    if (!isWorkspaceIgnoredPath(repoRelativePath, new Set([entry]))) {
+      continue;
+    }
+    closedCount += await closeTabsForFile(fileUri);
+    state?.openedFiles.delete(uriString);
+  }
+
+  void vscode.window.showInformationMessage(
+    closedCount > 0
+      ? `Branch Change Tabs: "${entry}" is now ignored; closed ${closedCount} tab(s).`
+      : `Branch Change Tabs: "${entry}" is now ignored for branch auto-open/pin.`
+  );
+  return true;
+}
+
+/**
+ * Removes exact-path entries whose files no longer exist in the working tree.
+ * Glob entries are kept. Returns true when entries were removed.
+ */
+export async function pruneIgnoredFiles(context: vscode.ExtensionContext): Promise<boolean> {
+  const allIgnored = getAllWorkspaceIgnoredFiles(context);
+  const missing = new Map<string, string[]>();
+  for (const [repoRoot, entries] of Object.entries(allIgnored)) {
+    for (const entry of entries) {
+      if (isIgnoredFileGlob(entry) || (await doesPathExist(path.join(repoRoot, entry)))) {
+        continue;
+      }
+      missing.set(repoRoot, [...(missing.get(repoRoot) ?? []), entry]);
+    }
+  }
+
+  const missingCount = [...missing.values()].reduce((total, entries) => total + entries.length, 0);
+  if (missingCount === 0) {
+    void vscode.window.showInformationMessage("Branch Change Tabs: all ignored files still exist.");
+    return false;
+  }
+
+  const preview = [...missing.values()].flat().slice(0, 10);
+  const confirmation = await vscode.window.showWarningMessage(
+    `Branch Change Tabs: remove ${missingCount} ignored entr${missingCount === 1 ? "y" : "ies"} whose files no longer exist?`,
+    {
+      modal: true,
+      detail: [
+        ...preview,
+        ...(missingCount > preview.length ? [`…and ${missingCount - preview.length} more`] : [])
+      ].join("\n")
+    },
+    "Remove"
+  );
+  if (confirmation !== "Remove") {
+    return false;
+  }
+
+  for (const [repoRoot, entries] of missing) {
+    await removeWorkspaceIgnoredFiles(context, repoRoot, entries);
+    output.appendLine(`Pruned ${entries.length} missing ignored file(s) in ${repoRoot}.`);
+  }
+  void vscode.window.showInformationMessage(
+    `Branch Change Tabs: pruned ${missingCount} missing ignored entr${missingCount === 1 ? "y" : "ies"}.`
+  );
+  return true;
+}
+
+/**
+ * Writes all ignored entries to a JSON file. Repositories inside the first workspace folder are
+ * keyed by relative path so the file can be shared.
+ */
+export async function exportIgnoredFiles(context: vscode.ExtensionContext): Promise<void> {
+  const allIgnored = getAllWorkspaceIgnoredFiles(context);
+  if (Object.keys(allIgnored).length === 0) {
+    void vscode.window.showInformationMessage("Branch Change Tabs: no ignored files to export.");
+    return;
+  }
+
+  const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri;
+  const target = await vscode.window.showSaveDialog({
+    defaultUri: workspaceRoot ? vscode.Uri.joinPath(workspaceRoot, EXPORT_FILE_NAME) : undefined,
+    filters: { JSON: ["json"] },
+    saveLabel: "Export Ignored Files"
+  });
+  if (!target) {
+    return;
+  }
+
+  const repositories: IgnoredFilesByRepo = {};
+  for (const [repoRoot, entries] of Object.entries(allIgnored)) {
+    repositories[toExportKey(repoRoot, workspaceRoot?.fsPath)] = entries;
+  }
+  const data: IgnoredFilesExport = { version: EXPORT_FORMAT_VERSION, repositories };
+
+  try {
+    await vscode.workspace.fs.writeFile(target, Buffer.from(`${JSON.stringify(data, null, 2)}\n`, "utf8"));
+    void vscode.window.showInformationMessage(
+      `Branch Change Tabs: exported ignored files to ${path.basename(target.fsPath)}.`
+    );
+  } catch (error) {
+    output.appendLine(`Failed to export ignored files: ${stringifyError(error)}`);
+    void vscode.window.showErrorMessage("Branch Change Tabs: failed to export ignored files.");
+  }
+}
+
+/**
+ * Merges ignored entries from a JSON export into this workspace. Repositories are matched by path,
+ * then by folder name among the open repositories. Returns true when entries were added.
+ */
+export async function importIgnoredFiles(
+  context: vscode.ExtensionContext,
+  repositories: Repository[]
+): Promise<boolean> {
+  const picked = await vscode.window.showOpenDialog({
+    canSelectMany: false,
+    filters: { JSON: ["json"] },
+    openLabel: "Import Ignored Files"
+  });
+  const source = picked?.[0];
+  if (!source) {
+    return false;
+  }
+
+  let data: IgnoredFilesExport;
+  try {
+    const content = Buffer.from(await vscode.workspace.fs.readFile(source)).toString("utf8");
+    data = parseExport(JSON.parse(content));
+  } catch (error) {
+    output.appendLine(`Failed to import ignored files from ${source.fsPath}: ${stringifyError(error)}`);
+    void vscode.window.showErrorMessage(
+      `Branch Change Tabs: "${path.basename(source.fsPath)}" is not a valid ignored files export.`
+    );
+    return false;
+  }
+
+  const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+  let addedCount = 0;
+  const skipped: string[] = [];
+  for (const [key, entries] of Object.entries(data.repositories)) {
+    const repoRoot = resolveImportedRepository(key, workspaceRoot, repositories);
+    if (!repoRoot) {
+      skipped.push(key);
+      continue;
+    }
+    addedCount += (await addWorkspaceIgnoredFiles(context, repoRoot, entries)).length;
+  }
+
+  if (skipped.length > 0) {
+    output.appendLine(`Skipped ignored files for unknown repositories: ${skipped.join(", ")}`);
+  }
+  const skippedNote =
+    skipped.length > 0
+      ? `; skipped ${skipped.length} unknown repositor${skipped.length === 1 ? "y" : "ies"}`
+      : "";
+  void vscode.window.showInformationMessage(
+    `Branch Change Tabs: imported ${addedCount} new ignored entr${addedCount === 1 ? "y" : "ies"}${skippedNote}.`
+  );
+  return addedCount > 0;
+}
+
+/**
+ * Validates parsed export JSON.
+ */
+function parseExport(value: unknown): IgnoredFilesExport {
+  if (!value || typeof value !== "object") {
+    throw new Error("expected a JSON object");
+  }
+
+  const repositories = (value as { repositories?: unknown }).repositories;
+  if (!repositories || typeof repositories !== "object" || Array.isArray(repositories)) {
+    throw new Error('missing "repositories" object');
+  }
+
+  const result: IgnoredFilesByRepo = {};
+  for (const [key, entries] of Object.entries(repositories)) {
+    if (!Array.isArray(entries)) {
+      throw new Error(`entries for "${key}" must be an array`);
+    }
+    result[key] = entries
+      .filter((entry): entry is string => typeof entry === "string")
+      .map((entry) => entry.trim())
+      .filter((entry) => entry.length > 0);
+  }
+  const version = Number((value as { version?: unknown }).version) || EXPORT_FORMAT_VERSION;
+  return { version, repositories: result };
+}
+
+/**
+ * Maps an export key back to a repository root in this workspace.
+ */
+function resolveImportedRepository(
+  key: string,
+  workspaceRoot: string | undefined,
+  repositories: Repository[]
+): string | undefined {
+  const candidate = path.isAbsolute(key) || !workspaceRoot ? key : path.resolve(workspaceRoot, key);
+  const normalized = normalizeRepoRoot(candidate);
+  const exact = repositories.find((repo) => normalizeRepoRoot(repo.rootUri.fsPath) === normalized);
+  if (exact) {
+    return exact.rootUri.fsPath;
+  }
+
+  const byName = repositories.filter(
+    (repo) => path.basename(repo.rootUri.fsPath) === path.basename(normalized)
+  );
+  return byName.length === 1 ? byName[0].rootUri.fsPath : undefined;
+}
+
+/**
+ * Returns the repository key written to an export file.
+ */
+function toExportKey(repoRoot: string, workspaceRoot: string | undefined): string {
+  if (!workspaceRoot) {
+    return repoRoot;
+  }
+
+  const relative = path.relative(workspaceRoot, repoRoot);
+  if (relative.startsWith("..") || path.isAbsolute(relative)) {
+    return repoRoot;
+  }
+  return relative ? relative.split(path.sep).join("/") : ".";
+}
+
+/**
+ * Groups picked entries by repository root.
+ */
+function groupByRepository(items: readonly IgnoredEntryQuickPickItem[]): Map<string, string[]> {
+  const grouped = new Map<string, string[]>();
+  for (const item of items) {
+    if (!item.repoRoot || !item.entry) {
+      continue;
+    }
+    grouped.set(item.repoRoot, [...(grouped.get(item.repoRoot) ?? []), item.entry]);
+  }
+  return grouped;
+}
+
+/**
+ * Checks if a path exists on disk via the VS Code FS API.
+ */
+async function doesPathExist(fsPath: string): Promise<boolean> {
+  try {
+    await vscode.workspace.fs.stat(vscode.Uri.file(fsPath));
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,312 @@
+import { AuthorFilterMode, ChangedFile } from "../core/types";
+import { output } from "../core/logger";
+import { stringifyError } from "../core/errors";
+import { execGit } from "./exec";
+import { COMMIT_LOG_FORMAT, CommitRecord, GitAuthor, parseCommitLog } from "./commitLog";
+
+type AuthorIdentity = {
+  emails: Set<string>;
+  names: Set<string>;
+};
+
+// Keyed by repo root; holds the commits for the last resolved base..head SHA pair.
+const branchCommitsCache = new Map<string, { key: string; commits: CommitRecord[] }>();
+
+export type AuthorFilterOptions = {
+  mode: AuthorFilterMode;
+  extraIdentities: string[];
+};
+
+/**
+ * Filters changed files to those owned by the current git author, according to the ownership mode.
+ * Only commits in base..head are considered. Uncommitted working-tree changes always count as owned.
+ */
+export async function filterChangedFilesByCurrentAuthor(
+  repoRoot: string,
+  baseRef: string,
+  headRef: string,
+  files: ChangedFile[],
+  options: AuthorFilterOptions
+): Promise<ChangedFile[]> {
+  if (files.length === 0 || options.mode === "all") {
+    return files;
+  }
+
+  // Uncommitted changes in this working tree are always the current author's.
+  const isUncommitted = (file: ChangedFile) =>
+    file.sources.some((source) => source !== "committed");
+  const identity = await getCurrentIdentity(repoRoot, options.extraIdentities);
+  if (!identity) {
+    output.appendLine("Current git author could not be determined; author filter produced no files.");
+    return files.filter(isUncommitted);
+  }
+
+  try {
+    const changedPaths = files.filter((file) => !isUncommitted(file)).map((file) => file.path);
+    const ownedPaths = await getOwnedPaths(repoRoot, baseRef, headRef, changedPaths, identity, options.mode);
+    const filtered = files.filter((file) => isUncommitted(file) || ownedPaths.has(file.path));
+
+    output.appendLine(
+      `Files after author filter (${options.mode}): ${filtered.length} of ${files.length} match current author.`
+    );
+    return filtered;
+  } catch (error) {
+    output.appendLine(`Failed to apply author filter: ${stringifyError(error)}`);
+    return files.filter(isUncommitted);
+  }
+}
+
+/**
+ * Returns the subset of paths owned by the identity under the given ownership mode.
+ */
+async function getOwnedPaths(
+  repoRoot: string,
+  baseRef: string,
+  headRef: string,
+  paths: string[],
+  identity: AuthorIdentity,
+  mode: Exclude<AuthorFilterMode, "all">
+): Promise<Set<string>> {
+  const owned = new Set<string>();
+  if (paths.length === 0) {
+    return owned;
+  }
+
+  const wanted = new Set(paths);
+  const isMine = (commit: CommitRecord) =>
+    commit.authors.some((author) => doesAuthorMatch(author, identity));
+  const commits = await getBranchCommits(repoRoot, baseRef, headRef);
+
+  if (mode === "lastAuthor") {
+    const seen = new Set<string>();
+    for (const commit of commits) {
+      for (const filePath of commit.linesByPath.keys()) {
+        if (!wanted.has(filePath) || seen.has(filePath)) {
+          continue;
+        }
+        seen.add(filePath);
+        if (isMine(commit)) {
+          owned.add(filePath);
+        }
+      }
+      if (seen.size === wanted.size) {
+        break;
+      }
+    }
+    return owned;
+  }
+
+  if (mode === "anyCommit") {
+    for (const commit of commits) {
+      if (!isMine(commit)) {
+        continue;
+      }
+      for (const filePath of commit.linesByPath.keys()) {
+        if (wanted.has(filePath)) {
+          owned.add(filePath);
+        }
+      }
+    }
+    return owned;
+  }
+
+  const totals = new Map<string, { mine: number; all: number }>();
+  for (const commit of commits) {
+    const mine = isMine(commit);
+    for (const [filePath, lines] of commit.linesByPath) {
+      if (!wanted.has(filePath)) {
+        continue;
+      }
+      // Pure renames and binary changes report zero lines; count them as one so they still weigh in.
+      const weight = Math.max(lines, 1);
+      const total = totals.get(filePath) ?? { mine: 0, all: 0 };
+      total.all += weight;
+      if (mine) {
+        total.mine += weight;
+      }
+      totals.set(filePath, total);
+    }
+  }
+  for (const [filePath, total] of totals) {
+    if (total.mine * 2 > total.all) {
+      owned.add(filePath);
+    }
+  }
+  return owned;
+}
+
+/**
+ * Returns the commits in base..head, reusing the cached result while neither ref has moved.
+ */
+async function getBranchCommits(
+  repoRoot: string,
+  baseRef: string,
+  headRef: string
+): Promise<CommitRecord[]> {
+  const { stdout } = await execGit(repoRoot, ["rev-parse", baseRef, headRef]);
+  const [baseSha, headSha] = stdout.split(/\r?\n/).map((line) => line.trim());
+  const cacheKey = `${baseSha}..${headSha}`;
+  const cached = branchCommitsCache.get(repoRoot);
+  if (cached && cached.key === cacheKey) {
+    return cached.commits;
+  }
+
+  const commits = await readCommits(repoRoot, cacheKey);
+  branchCommitsCache.set(repoRoot, { key: cacheKey, commits });
+  return commits;
+}
+
+/**
+ * Reads commits (newest first) in a revision range with per-file changed line counts,
+ * mailmap-resolved authors and Co-authored-by trailers.
+ */
+async function readCommits(repoRoot: string, revisionRange: string): Promise<CommitRecord[]> {
+  const { stdout } = await execGit(repoRoot, [
+    "log",
+    `--format=${COMMIT_LOG_FORMAT}`,
+    "-z",
+    "--numstat",
+    revisionRange
+  ]);
+
+  const { commits, coAuthorsByCommit } = parseCommitLog(stdout);
+  await attachCoAuthors(repoRoot, coAuthorsByCommit);
+  return commits;
+}
+
+/**
+ * Resolves Co-authored-by trailers through .mailmap and adds them to their commits.
+ */
+async function attachCoAuthors(
+  repoRoot: string,
+  coAuthorsByCommit: Map<CommitRecord, string[]>
+): Promise<void> {
+  if (coAuthorsByCommit.size === 0) {
+    return;
+  }
+
+  const unique = [...new Set([...coAuthorsByCommit.values()].flat())];
+  const resolved = await resolveMailmap(repoRoot, unique);
+  for (const [commit, trailers] of coAuthorsByCommit) {
+    for (const trailer of trailers) {
+      const author = parseContact(resolved.get(trailer) ?? trailer);
+      if (author) {
+        commit.authors.push(author);
+      }
+    }
+  }
+}
+
+/**
+ * Builds the set of identities that count as the current author: the configured git identity,
+ * its .mailmap canonical form, and any extra identities from settings.
+ */
+async function getCurrentIdentity(
+  repoRoot: string,
+  extraIdentities: string[]
+): Promise<AuthorIdentity | undefined> {
+  const [email, name] = await Promise.all([
+    getGitConfigValue(repoRoot, "user.email"),
+    getGitConfigValue(repoRoot, "user.name")
+  ]);
+  const extras = extraIdentities.map((entry) => entry.trim()).filter((entry) => entry.length > 0);
+  if (!email && !name && extras.length === 0) {
+    return undefined;
+  }
+
+  const identity: AuthorIdentity = { emails: new Set(), names: new Set() };
+  if (email) {
+    identity.emails.add(normalizeIdentity(email));
+    const contact = `${name ?? ""} <${email}>`.trim();
+    const mapped = parseContact((await resolveMailmap(repoRoot, [contact])).get(contact) ?? "");
+    if (mapped?.email) {
+      identity.emails.add(normalizeIdentity(mapped.email));
+    }
+  } else if (name) {
+    // Without an email, fall back to matching by name only.
+    identity.names.add(normalizeIdentity(name));
+  }
+
+  for (const extra of extras) {
+    const contact = parseContact(extra);
+    if (contact?.email) {
+      identity.emails.add(normalizeIdentity(contact.email));
+    } else if (extra.includes("@")) {
+      identity.emails.add(normalizeIdentity(extra));
+    } else {
+      identity.names.add(normalizeIdentity(extra));
+    }
+  }
+
+  return identity;
+}
+
+/**
+ * Maps "Name <email>" contacts to their canonical .mailmap form. Unmapped contacts are omitted.
+ */
+async function resolveMailmap(repoRoot: string, contacts: string[]): Promise<Map<string, string>> {
+  const result = new Map<string, string>();
+  const valid = contacts.filter((contact) => /<[^>]*>/.test(contact));
+  if (valid.length === 0) {
+    return result;
+  }
+
+  try {
+    const { stdout } = await execGit(repoRoot, ["check-mailmap", ...valid]);
+    const lines = stdout.split(/\r?\n/).filter((line) => line.length > 0);
+    valid.forEach((contact, index) => {
+      const mapped = lines[index]?.trim();
+      if (mapped) {
+        result.set(contact, mapped);
+      }
+    });
+  } catch (error) {
+    output.appendLine(`Failed to resolve .mailmap identities: ${stringifyError(error)}`);
+  }
+  return result;
+}
+
+/**
+ * Parses a "Name <email>" contact string.
+ */
+function parseContact(value: string): GitAuthor | undefined {
+  const match = /^(.*?)\s*<([^>]*)>\s*$/.exec(value.trim());
+  if (!match) {
+    return undefined;
+  }
+
+  return { name: match[1].trim() || undefined, email: match[2].trim() || undefined };
+}
+
+/**
+ * Reads a git config value from repo or global scope.
+ */
+async function getGitConfigValue(repoRoot: string, key: string): Promise<string | undefined> {
+  try {
+    const { stdout } = await execGit(repoRoot, ["config", "--get", key]);
+    const value = stdout.trim();
+    return value.length > 0 ? value : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Compares commit author metadata against the current author's identities.
+ */
+function doesAuthorMatch(author: GitAuthor, identity: AuthorIdentity): boolean {
+  const email = normalizeIdentity(author.email);
+  if (email && identity.emails.has(email)) {
+    return true;
+  }
+
+  const name = normalizeIdentity(author.name);
+  return Boolean(name) && identity.names.has(name);
+}
+
+/**
+ * Normalizes identity fields for case-insensitive matching.
+ */
+function normalizeIdentity(value?: string): string {
+  return (value ?? "").trim().toLowerCase();
+}
@@ -0,0 +1,131 @@
+import * as vscode from "vscode";
+import { output } from "../core/logger";
+import { stringifyError } from "../core/errors";
+import { execGit } from "./exec";
+
+export const BASE_CONTENT_SCHEME = "branchtabs-base";
+
+const MAX_CACHED_DOCUMENTS = 200;
+const COMMIT_SHA_PATTERN = /^[0-9a-f]{40}$/i;
+
+type BaseContentQuery = {
+  repo: string;
+  ref: string;
+  path: string;
+};
+
+/**
+ * Builds a read-only URI for a repo-relative file at a git ref. The URI path keeps the file name so
+ * the editor detects the language and shows a meaningful title.
+ */
+export function toBaseContentUri(repoRoot: string, ref: string, repoRelativePath: string): vscode.Uri {
+  const query: BaseContentQuery = { repo: repoRoot, ref, path: repoRelativePath };
+  return vscode.Uri.from({
+    scheme: BASE_CONTENT_SCHEME,
+    path: `/${repoRelativePath}`,
+    query: JSON.stringify(query)
+  });
+}
+
+/**
+ * Builds a read-only URI with empty content, used as the missing side of a diff (e.g. a deleted file).
+ */
+export function toEmptyContentUri(repoRoot: string, repoRelativePath: string): vscode.Uri {
+  return toBaseContentUri(repoRoot, "", repoRelativePath);
+}
+
+/**
+ * Serves file contents at a git ref via `git show`. Contents are cached by commit SHA. Documents
+ * of a moving ref such as HEAD or a branch name are re-read when the repository's HEAD moves.
+ */
+export class BaseContentProvider implements vscode.TextDocumentContentProvider {
+  private readonly onDidChangeEmitter = new vscode.EventEmitter<vscode.Uri>();
+  readonly onDidChange = this.onDidChangeEmitter.event;
+  private readonly cache = new Map<string, Promise<string>>();
+  private readonly headCommits = new Map<string, string | undefined>();
+
+  /**
+   * Records a repository's HEAD commit. When it moved, open documents of the repository that name
+   * a ref instead of a commit SHA are reported as changed so open diffs show the new content.
+   */
+  updateHead(repoRoot: string, headCommit: string | undefined): void {
+    const previous = this.headCommits.get(repoRoot);
+    this.headCommits.set(repoRoot, headCommit);
+    if (previous === headCommit) {
+      return;
+    }
+
+    for (const document of vscode.workspace.textDocuments) {
+      if (document.uri.scheme !== BASE_CONTENT_SCHEME) {
+        continue;
+      }
+
+      const query = parseQuery(document.uri);
+      if (query?.repo === repoRoot && query.ref && !COMMIT_SHA_PATTERN.test(query.ref)) {
+        this.onDidChangeEmitter.fire(document.uri);
+      }
+    }
+  }
+
+  async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+    const query = parseQuery(uri);
+    if (!query || !query.ref) {
+      return "";
+    }
+
+    let commit: string;
+    try {
+      const { stdout } = await execGit(query.repo, ["rev-parse", "--verify", `${query.ref}^{commit}`]);
+      commit = stdout.trim();
+    } catch {
+      output.appendLine(`Base content: ref "${query.ref}" not found in ${query.repo}.`);
+      return "";
+    }
+
+    const key = `${query.repo}\0${commit}\0${query.path}`;
+    let content = this.cache.get(key);
+    if (!content) {
+      content = readFileAtCommit(query.repo, commit, query.path);
+      this.cache.set(key, content);
+      // Maps iterate in insertion order, so the first key is the oldest entry.
+      if (this.cache.size > MAX_CACHED_DOCUMENTS) {
+        const oldest = this.cache.keys().next().value;
+        if (oldest !== undefined) {
+          this.cache.delete(oldest);
+        }
+      }
+    }
+    return content;
+  }
+}
+
+/**
+ * Reads a file at a commit. Paths that do not exist at the commit produce empty content.
+ */
+async function readFileAtCommit(repoRoot: string, commit: string, repoRelativePath: string): Promise<string> {
+  try {
+    const { stdout } = await execGit(repoRoot, ["show", `${commit}:${repoRelativePath}`]);
+    return stdout;
+  } catch (error) {
+    const message = stringifyError(error);
+    if (!message.includes("exists on disk, but not in") && !message.includes("does not exist in")) {
+      output.appendLine(`Base content: failed to read "${repoRelativePath}" at ${commit}: ${message}`);
+    }
+    return "";
+  }
+}
+
+/**
+ * Parses the repo, ref and path encoded in a base content URI.
+ */
+function parseQuery(uri: vscode.Uri): BaseContentQuery | undefined {
+  try {
+    const parsed = JSON.parse(uri.query) as Partial<BaseContentQuery>;
+    if (typeof parsed.repo !== "string" || typeof parsed.path !== "string") {
+      return undefined;
+    }
+    return { repo: parsed.repo, ref: typeof parsed.ref === "string" ? parsed.ref : "", path: parsed.path };
+  } catch {
+    return undefined;
+  }
+}
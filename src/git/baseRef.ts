@@ -0,0 +1,313 @@
+import * as vscode from "vscode";
+import { BaseRefSource, BaseRefStrategy } from "../core/types";
+import { output } from "../core/logger";
+import { doesRefExist } from "./gitDiff";
+import { stringifyError } from "../core/errors";
+import { execGit } from "./exec";
+
+export type BaseRefRequest = {
+  configuredBase: string;
+  currentBranch?: string;
+  upstream?: string;
+  selectedBase?: string;
+  strategies: BaseRefStrategy[];
+  defaultBranchNames: string[];
+};
+
+export type BaseRefResolution = {
+  ref: string;
+  source: BaseRefSource;
+  reason: string;
+};
+
+type StrategyResult = { ref: string; reason: string } | { skipped: string };
+
+// Last logged resolution per repository, so repeated view refreshes do not flood the log.
+const lastLoggedResolution = new Map<string, string>();
+const warnedBehindBranches = new Set<string>();
+// Last nearest-ancestor result per repository, reused while HEAD and every candidate ref are unchanged.
+const nearestAncestorCache = new Map<string, { snapshot: string; result: StrategyResult }>();
+
+/**
+ * Determines the base ref used for diffing a branch.
+ * A ref selected by the user for the repository branch takes precedence; the configured
+ * strategies are then tried in order until one produces an existing ref.
+ */
+export async function resolveBaseRef(
+  repoRoot: string,
+  request: BaseRefRequest
+): Promise<BaseRefResolution | undefined> {
+  const notes: string[] = [];
+  let resolution: BaseRefResolution | undefined;
+
+  const selectedRef = request.selectedBase?.trim();
+  if (selectedRef) {
+    if (await doesRefExist(repoRoot, selectedRef)) {
+      resolution = { ref: selectedRef, source: "selected", reason: "selected for this branch" };
+    } else {
+      notes.push(`selected base ref "${selectedRef}" not found`);
+    }
+  }
+
+  for (const strategy of request.strategies) {
+    if (resolution) {
+      break;
+    }
+    const result = await runStrategy(repoRoot, strategy, request);
+    if ("skipped" in result) {
+      notes.push(`${strategy}: ${result.skipped}`);
+    } else {
+      resolution = { ref: result.ref, source: strategy, reason: result.reason };
+    }
+  }
+
+  logResolution(repoRoot, request.currentBranch, resolution, notes);
+  return resolution;
+}
+
+/**
+ * Runs a single base ref strategy.
+ */
+async function runStrategy(
+  repoRoot: string,
+  strategy: BaseRefStrategy,
+  request: BaseRefRequest
+): Promise<StrategyResult> {
+  switch (strategy) {
+    case "configured": {
+      const configuredRef = request.configuredBase.trim();
+      if (!configuredRef) {
+        return { skipped: "branchTabs.baseBranch is empty" };
+      } else if (!(await doesRefExist(repoRoot, configuredRef))) {
+        return { skipped: `configured base ref "${configuredRef}" not found` };
+      }
+      return { ref: configuredRef, reason: "branchTabs.baseBranch setting" };
+    }
+    case "upstream": {
+      const upstreamRef = request.upstream?.trim();
+      const currentBranch = request.currentBranch;
+      if (!upstreamRef) {
+        return { skipped: "branch has no upstream" };
+      } else if (
+        currentBranch &&
+        (upstreamRef === currentBranch || upstreamRef.endsWith(`/${currentBranch}`))
+      ) {
+        return { skipped: `upstream "${upstreamRef}" tracks the same branch` };
+      } else if (!(await doesRefExist(repoRoot, upstreamRef))) {
+        return { skipped: `upstream "${upstreamRef}" not found` };
+      }
+      return { ref: upstreamRef, reason: "upstream of the current branch" };
+    }
+    case "nearestAncestor":
+      return findNearestAncestorBranch(repoRoot, request);
+    case "defaultBranch":
+      return findDefaultBranch(repoRoot, request.defaultBranchNames);
+  }
+}
+
+/**
+ * Finds the repository's default branch. The branch named by refs/remotes/<remote>/HEAD is tried
+ * first, then the candidate names. A local branch wins over its remote-tracking counterpart, but
+ * a warning is raised when the local branch is behind it.
+ */
+async function findDefaultBranch(repoRoot: string, candidateNames: string[]): Promise<StrategyResult> {
+  const remotes = await listRemotes(repoRoot);
+  const names: { name: string; reason: string }[] = [];
+  for (const remote of remotes) {
+    try {
+      const { stdout } = await execGit(repoRoot, [
+        "symbolic-ref",
+        "--quiet",
+        "--short",
+        `refs/remotes/${remote}/HEAD`
+      ]);
+      const target = stdout.trim();
+      if (target.startsWith(`${remote}/`)) {
+        names.push({ name: target.slice(remote.length + 1), reason: `${remote}/HEAD points to "${target}"` });
+        break;
+      }
+    } catch {
+      // The remote has no HEAD symref (e.g. never fetched with --set-head).
+    }
+  }
+  for (const candidate of candidateNames.map((name) => name.trim()).filter(Boolean)) {
+    if (!names.some((entry) => entry.name === candidate)) {
+      names.push({ name: candidate, reason: "candidate default branch name" });
+    }
+  }
+
+  for (const { name, reason } of names) {
+    if (await doesRefExist(repoRoot, `refs/heads/${name}`)) {
+      await warnIfBehindRemote(repoRoot, name, remotes);
+      return { ref: name, reason: `local "${name}" (${reason})` };
+    }
+    for (const remote of remotes) {
+      const remoteRef = `${remote}/${name}`;
+      if (await doesRefExist(repoRoot, `refs/remotes/${remoteRef}`)) {
+        return { ref: remoteRef, reason: `remote-tracking "${remoteRef}" (${reason})` };
+      }
+    }
+  }
+
+  return {
+    skipped: `no local or remote-tracking branch named ${names.map((entry) => `"${entry.name}"`).join(", ") || "(none)"}`
+  };
+}
+
+/**
+ * Warns once when a local default branch is behind its remote-tracking ref, since diffing against
+ * it would include other people's already-merged work.
+ */
+async function warnIfBehindRemote(repoRoot: string, branch: string, remotes: string[]): Promise<void> {
+  let trackingRef: string | undefined;
+  try {
+    const { stdout } = await execGit(repoRoot, ["rev-parse", "--abbrev-ref", `${branch}@{upstream}`]);
+    trackingRef = stdout.trim() || undefined;
+  } catch {
+    const remote = remotes[0];
+    if (remote && (await doesRefExist(repoRoot, `refs/remotes/${remote}/${branch}`))) {
+      trackingRef = `${remote}/${branch}`;
+    }
+  }
+  if (!trackingRef) {
+    return;
+  }
+
+  let behind: number;
+  try {
+    const { stdout } = await execGit(repoRoot, ["rev-list", "--count", `${branch}..${trackingRef}`]);
+    behind = Number(stdout.trim());
+  } catch {
+    return;
+  }
+  const key = `${repoRoot}\0${branch}\0${trackingRef}\0${behind}`;
+  if (!behind || warnedBehindBranches.has(key)) {
+    return;
+  }
+
+  warnedBehindBranches.add(key);
+  const message = `Local "${branch}" is ${behind} commit(s) behind "${trackingRef}"; the branch diff may include work already merged upstream.`;
+  output.appendLine(message);
+  void vscode.window.showWarningMessage(`Branch Change Tabs: ${message}`);
+}
+
+/**
+ * Lists configured remotes, with "origin" first.
+ */
+async function listRemotes(repoRoot: string): Promise<string[]> {
+  try {
+    const { stdout } = await execGit(repoRoot, ["remote"]);
+    const remotes = stdout
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0);
+    return remotes.sort((a, b) => Number(b === "origin") - Number(a === "origin"));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Finds the local or remote-tracking branch with the closest merge-base to HEAD, i.e. the one
+ * HEAD has the fewest commits beyond. Branches that already contain HEAD or share no history
+ * with it are not candidates. Counting spawns two git processes per candidate, so the result is
+ * cached until HEAD or any candidate ref moves.
+ */
+async function findNearestAncestorBranch(
+  repoRoot: string,
+  request: BaseRefRequest
+): Promise<StrategyResult> {
+  const currentBranch = request.currentBranch;
+  let candidates: { name: string; remote: boolean }[];
+  let snapshot: string;
+  try {
+    const [head, refs] = await Promise.all([
+      execGit(repoRoot, ["rev-parse", "HEAD"]),
+      execGit(repoRoot, [
+        "for-each-ref",
+        "--no-contains=HEAD",
+        "--format=%(refname)%00%(refname:short)%00%(objectname)",
+        "refs/heads",
+        "refs/remotes"
+      ])
+    ]);
+    snapshot = [head.stdout.trim(), currentBranch ?? "", request.upstream ?? "", refs.stdout].join("\0");
+    const cached = nearestAncestorCache.get(repoRoot);
+    if (cached?.snapshot === snapshot) {
+      return cached.result;
+    }
+
+    candidates = refs.stdout
+      .split(/\r?\n/)
+      .map((line) => line.split("\0"))
+      .filter(([fullName, shortName]) => Boolean(fullName && shortName) && !fullName.endsWith("/HEAD"))
+      .map(([fullName, shortName]) => ({
+        name: shortName,
+        remote: fullName.startsWith("refs/remotes/")
+      }))
+      .filter(
+        (candidate) =>
+          candidate.name !== currentBranch &&
+          candidate.name !== request.upstream &&
+          !(currentBranch && candidate.remote && candidate.name.endsWith(`/${currentBranch}`))
+      );
+  } catch (error) {
+    return { skipped: `failed to list branches (${stringifyError(error)})` };
+  }
+
+  let best: { name: string; remote: boolean; distance: number } | undefined;
+  for (const candidate of candidates) {
+    let distance: number;
+    try {
+      // git merge-base fails for unrelated histories, which drops the candidate before ranking.
+      const mergeBase = (await execGit(repoRoot, ["merge-base", candidate.name, "HEAD"])).stdout.trim();
+      if (!mergeBase) {
+        continue;
+      }
+      const { stdout } = await execGit(repoRoot, ["rev-list", "--count", `${mergeBase}..HEAD`]);
+      distance = Number(stdout.trim());
+    } catch {
+      continue;
+    }
+    if (!Number.isFinite(distance)) {
+      continue;
+    }
+    // Prefer the closer branch; on ties prefer local branches over remote-tracking ones.
+    if (!best || distance < best.distance || (distance === best.distance && best.remote && !candidate.remote)) {
+      best = { ...candidate, distance };
+    }
+  }
+
+  const result: StrategyResult = best
+    ? {
+        ref: best.name,
+        reason: `nearest ancestor branch (HEAD is ${best.distance} commit(s) ahead of its merge-base)`
+      }
+    : { skipped: "no other branch shares history with HEAD" };
+  nearestAncestorCache.set(repoRoot, { snapshot, result });
+  return result;
+}
+
+/**
+ * Logs how the base ref was chosen, but only when the outcome changed for the repository branch.
+ */
+function logResolution(
+  repoRoot: string,
+  currentBranch: string | undefined,
+  resolution: BaseRefResolution | undefined,
+  notes: string[]
+): void {
+  const summary = resolution
+    ? `Base ref for "${currentBranch ?? "HEAD"}": ${resolution.ref} (${resolution.source}: ${resolution.reason}).`
+    : `No base ref found for "${currentBranch ?? "HEAD"}".`;
+  const key = `${repoRoot}\0${currentBranch ?? ""}`;
+  if (lastLoggedResolution.get(key) === summary) {
+    return;
+  }
+
+  lastLoggedResolution.set(key, summary);
+  output.appendLine(summary);
+  for (const note of notes) {
+    output.appendLine(`  skipped ${note}`);
+  }
+}
@@ -0,0 +1,93 @@
+import * as path from "path";
+import { promises as fs } from "fs";
+import { output } from "../core/logger";
+import { stringifyError } from "../core/errors";
+import { execGit } from "./exec";
+import { IgnoreRule, isIgnored, parseRule } from "./ignoreRules";
+
+export const BRANCH_TABS_IGNORE_FILE = ".branchtabsignore";
+
+// Parsed rules per repo root, dropped when any .branchtabsignore file changes.
+const rulesCache = new Map<string, Promise<IgnoreRule[]>>();
+
+/**
+ * Returns a predicate telling whether a repo-relative path is excluded by the repository's
+ * .branchtabsignore files, or undefined when the repository has none.
+ */
+export async function getBranchTabsIgnoreMatcher(
+  repoRoot: string
+): Promise<((repoRelativePath: string) => boolean) | undefined> {
+  let rules = rulesCache.get(repoRoot);
+  if (!rules) {
+    rules = loadRules(repoRoot);
+    rulesCache.set(repoRoot, rules);
+  }
+
+  const loaded = await rules;
+  if (loaded.length === 0) {
+    return undefined;
+  }
+  return (repoRelativePath) => isIgnored(loaded, repoRelativePath);
+}
+
+/**
+ * Drops cached .branchtabsignore rules for a repository, or for all repositories.
+ */
+export function invalidateBranchTabsIgnoreRules(repoRoot?: string): void {
+  if (repoRoot) {
+    rulesCache.delete(repoRoot);
+  } else {
+    rulesCache.clear();
+  }
+}
+
+/**
+ * Finds and parses every tracked or untracked (but not git-ignored) .branchtabsignore file.
+ */
+async function loadRules(repoRoot: string): Promise<IgnoreRule[]> {
+  let ignoreFiles: string[];
+  try {
+    const { stdout } = await execGit(repoRoot, [
+      "ls-files",
+      "-z",
+      "--cached",
+      "--others",
+      "--exclude-standard",
+      "--",
+      `:(glob)**/${BRANCH_TABS_IGNORE_FILE}`
+    ]);
+    ignoreFiles = [...new Set(stdout.split("\0").filter((entry) => entry.length > 0))];
+  } catch (error) {
+    output.appendLine(`Failed to list ${BRANCH_TABS_IGNORE_FILE} files: ${stringifyError(error)}`);
+    return [];
+  }
+
+  // Parent directories first, so rules in nested files override the ones above them.
+  ignoreFiles.sort((a, b) => a.split("/").length - b.split("/").length || a.localeCompare(b));
+
+  const rules: IgnoreRule[] = [];
+  for (const ignoreFile of ignoreFiles) {
+    let content: string;
+    try {
+      content = await fs.readFile(path.join(repoRoot, ignoreFile), "utf8");
+    } catch {
+      // Listed in the index but deleted from the working tree.
+      continue;
+    }
+
+    const baseDir = path.posix.dirname(ignoreFile) === "." ? "" : path.posix.dirname(ignoreFile);
+    for (const line of content.split(/\r?\n/)) {
+      const rule = parseRule(line, baseDir);
+      if (rule) {
+        rules.push(rule);
+      }
+    }
+  }
+
+  if (ignoreFiles.length > 0) {
+    output.appendLine(
+      `Loaded ${rules.length} rule(s) from ${ignoreFiles.length} ${BRANCH_TABS_IGNORE_FILE} file(s).`
+    );
+  }
+  return rules;
+}
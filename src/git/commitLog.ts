@@ -0,0 +1,80 @@
+const AUTHOR_MARKER = "__BCT_AUTHOR__";
+const TRAILER_SEPARATOR = "\x01";
+const NUMSTAT_PATTERN = /^(-|\d+)\t(-|\d+)\t(.*)$/;
+
+// `git log --format` value whose output parseCommitLog understands; use with -z and --numstat.
+export const COMMIT_LOG_FORMAT =
+  `${AUTHOR_MARKER}%x00%aE%x00%aN%x00%(trailers:key=Co-authored-by,valueonly,separator=%x01)`;
+
+export type GitAuthor = {
+  email?: string;
+  name?: string;
+};
+
+export type CommitRecord = {
+  authors: GitAuthor[];
+  linesByPath: Map<string, number>;
+};
+
+export type ParsedCommitLog = {
+  commits: CommitRecord[];
+  // Raw Co-authored-by trailer values per commit, for commits that have any.
+  coAuthorsByCommit: Map<CommitRecord, string[]>;
+};
+
+/**
+ * Parses `git log -z --numstat --format=COMMIT_LOG_FORMAT` output into commits (in log order)
+ * with per-file changed line counts. Renamed and copied files are recorded under their new path.
+ */
+export function parseCommitLog(stdout: string): ParsedCommitLog {
+  const commits: CommitRecord[] = [];
+  const coAuthorsByCommit = new Map<CommitRecord, string[]>();
+  const tokens = stdout.split("\0");
+  let current: CommitRecord | undefined;
+  for (let index = 0; index < tokens.length; index += 1) {
+    const token = tokens[index] ?? "";
+    if (token === AUTHOR_MARKER) {
+      current = {
+        authors: [
+          {
+            email: (tokens[index + 1] ?? "").trim(),
+            name: (tokens[index + 2] ?? "").trim()
+          }
+        ],
+        linesByPath: new Map()
+      };
+      const trailers = (tokens[index + 3] ?? "")
+        .split(TRAILER_SEPARATOR)
+        .map((entry) => entry.trim())
+        .filter((entry) => entry.length > 0);
+      if (trailers.length > 0) {
+        coAuthorsByCommit.set(current, trailers);
+      }
+      commits.push(current);
+      index += 3;
+      continue;
+    }
+
+    // Each commit's file list starts on a new line after the format fields.
+    const entry = token.replace(/^\n/, "");
+    if (!current || !entry) {
+      continue;
+    }
+
+    const match = NUMSTAT_PATTERN.exec(entry);
+    if (!match) {
+      continue;
+    }
+    let filePath = match[3];
+    if (!filePath) {
+      // Renames and copies are followed by separate old and new path tokens.
+      filePath = (tokens[index + 2] ?? "").trim();
+      index += 2;
+    }
+    const added = match[1] === "-" ? 0 : Number(match[1]);
+    const deleted = match[2] === "-" ? 0 : Number(match[2]);
+    current.linesByPath.set(filePath, added + deleted);
+  }
+
+  return { commits, coAuthorsByCommit };
+}
@@ -0,0 +1,17 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Executes a git command in the repository root. Optional locks are disabled so background
+ * reads never block the user's own git commands.
+ */
+export async function execGit(repoRoot: string, args: string[]) {
+  return execFileAsync("git", args, {
+    cwd: repoRoot,
+    windowsHide: true,
+    maxBuffer: 64 * 1024 * 1024,
+    env: { ...process.env, GIT_OPTIONAL_LOCKS: "0" }
+  });
+}
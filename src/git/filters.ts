@@ -1,50 +1,37 @@
 import * as vscode from "vscode";
 import * as path from "path";
 import { spawn } from "child_process";
-import { ChangedFile } from "../core/types";
+import { ChangedFile, ChangeType } from "../core/types";
 import { output } from "../core/logger";
+import { matchesAnyPattern } from "../core/patterns";
+import { stringifyError } from "../core/errors";
+import { BRANCH_TABS_IGNORE_FILE, getBranchTabsIgnoreMatcher } from "./branchTabsIgnore";
 
 /**
  * Filters files by change kind based on user settings.
  */
-export function filterByTypeOfChange(
-  files: ChangedFile[],
-  includeModified: boolean,
-  includeAdded: boolean
-): ChangedFile[] {
-  if (includeModified && includeAdded) {
-    return files;
-  }
-  if (!includeModified && !includeAdded) {
-    return [];
-  }
-  return files.filter((file) => (includeModified ? file.kind === "modified" : file.kind === "added"));
+export function filterByTypeOfChange(files: ChangedFile[], includedKinds: Set<ChangeType>): ChangedFile[] {
+  return files.filter((file) => includedKinds.has(file.kind));
 }
 
 /**
- * Filters files that match any of the configured exclude regexes.
+ * Filters files that match any of the configured exclude patterns (regex or glob).
  */
-export function filterExcludedFiles(files: ChangedFile[], regexes: string[]): ChangedFile[] {
-  const compiled = regexes
-    .map((pattern) => parseRegex(pattern))
-    .filter((regex): regex is RegExp => Boolean(regex));
-  if (compiled.length === 0) {
+export function filterExcludedFiles(files: ChangedFile[], patterns: string[]): ChangedFile[] {
+  if (patterns.length === 0) {
     return files;
   }
-  return files.filter((file) => !compiled.some((regex) => regex.test(file.path)));
+  return files.filter((file) => !matchesAnyPattern(file.path, patterns, "file"));
 }
 
 /**
- * Filters files whose repo-relative paths match any directory regex.
+ * Filters files whose repo-relative paths match any directory pattern (regex or glob).
  */
-export function filterExcludedDirectories(files: ChangedFile[], dirRegexes: string[]): ChangedFile[] {
-  const compiled = dirRegexes
-    .map((pattern) => parseRegex(pattern))
-    .filter((regex): regex is RegExp => Boolean(regex));
-  if (compiled.length === 0) {
+export function filterExcludedDirectories(files: ChangedFile[], dirPatterns: string[]): ChangedFile[] {
+  if (dirPatterns.length === 0) {
     return files;
   }
-  return files.filter((file) => !compiled.some((regex) => regex.test(file.path)));
+  return files.filter((file) => !matchesAnyPattern(file.path, dirPatterns, "directory"));
 }
 
 /**
@@ -104,31 +91,25 @@ export async function filterGitIgnoredFilesDirectories(
 }
 
 /**
- * Parses a regex string, supporting "/pattern/flags" or "pattern" formats.
+ * Filters files excluded by the repository's committed .branchtabsignore files.
  */
-function parseRegex(value: string): RegExp | undefined {
-  const trimmed = value.trim();
-  if (!trimmed) {
-    return undefined;
-  }
-
-  if (trimmed.startsWith("/") && trimmed.lastIndexOf("/") > 0) {
-    const lastSlash = trimmed.lastIndexOf("/");
-    const pattern = trimmed.slice(1, lastSlash);
-    const flags = trimmed.slice(lastSlash + 1);
-    try {
-      return new RegExp(pattern, flags);
-    } catch (error) {
-      output.appendLine(`Invalid regex "${value}": ${stringifyError(error)}`);
-      return undefined;
-    }
+export async function filterBranchTabsIgnoredFiles(
+  repoRoot: string,
+  files: ChangedFile[]
+): Promise<ChangedFile[]> {
+  if (files.length === 0) {
+    return files;
   }
 
   try {
-    return new RegExp(trimmed);
+    const isIgnored = await getBranchTabsIgnoreMatcher(repoRoot);
+    if (!isIgnored) {
+      return files;
+    }
+    return files.filter((file) => !isIgnored(file.path));
   } catch (error) {
-    output.appendLine(`Invalid regex "${value}": ${stringifyError(error)}`);
-    return undefined;
+    output.appendLine(`Failed to apply ${BRANCH_TABS_IGNORE_FILE} filters: ${stringifyError(error)}`);
+    return files;
   }
 }
 
@@ -144,16 +125,6 @@ async function doesFileExist(uri: vscode.Uri): Promise<boolean> {
   }
 }
 
-/**
- * Formats an error into a readable message.
- */
-function stringifyError(error: unknown): string {
-  if (error instanceof Error) {
-    return error.message;
-  }
-  return String(error);
-}
-
 /**
  * Runs git check-ignore with a null-delimited list of paths.
  */
@@ -1,126 +1,182 @@
-import { execFile } from "child_process";
-import { promisify } from "util";
-import { ChangedFile } from "../core/types";
+import { ChangedFile, ChangeSource, ChangeType } from "../core/types";
 import { output } from "../core/logger";
+import { stringifyError } from "../core/errors";
+import { execGit } from "./exec";
 
-const execFileAsync = promisify(execFile);
-const AUTHOR_MARKER = "__BCT_AUTHOR__";
+export type GitRefEntry = {
+  name: string;
+  kind: "branch" | "remote" | "tag";
+};
+
+// Passed explicitly so renames and copies do not depend on the user's diff.renames config.
+const RENAME_DETECTION_ARGS = ["--find-renames", "--find-copies"];
 
-type GitAuthor = {
-  email?: string;
-  name?: string;
+const NAME_STATUS_KINDS: Record<string, ChangeType> = {
+  A: "added",
+  M: "modified",
+  D: "deleted",
+  T: "typeChanged",
+  U: "unmerged"
 };
 
 /**
- * Determines the base ref used for diffing a branch.
+ * Checks whether a git ref exists in the repository.
  */
-export async function resolveBaseRef(
-  repoRoot: string,
-  configuredBase: string,
-  currentBranch?: string,
-  upstream?: string
-): Promise<string | undefined> {
-  if (configuredBase && configuredBase.trim().length > 0) {
-    const configuredRef = configuredBase.trim();
-    if (await doesRefExist(repoRoot, configuredRef)) {
-      return configuredRef;
-    }
-    output.appendLine(`Configured base ref "${configuredRef}" not found. Falling back.`);
+export async function doesRefExist(repoRoot: string, ref: string): Promise<boolean> {
+  try {
+    await execGit(repoRoot, ["rev-parse", "--verify", ref]);
+    return true;
+  } catch {
+    return false;
   }
+}
 
-  if (upstream && upstream.trim().length > 0) {
-    const upstreamRef = upstream.trim();
-    const tracksSameBranch =
-      (currentBranch && upstreamRef === currentBranch) ||
-      (currentBranch && upstreamRef.endsWith(`/${currentBranch}`));
-    if (!tracksSameBranch && (await doesRefExist(repoRoot, upstreamRef))) {
-      return upstreamRef;
+/**
+ * Lists local branches, remote-tracking branches and tags in the repository.
+ */
+export async function listRefs(repoRoot: string): Promise<GitRefEntry[]> {
+  try {
+    const { stdout } = await execGit(repoRoot, [
+      "for-each-ref",
+      "--format=%(refname)%00%(refname:short)",
+      "refs/heads",
+      "refs/remotes",
+      "refs/tags"
+    ]);
+    const refs: GitRefEntry[] = [];
+    for (const line of stdout.split(/\r?\n/)) {
+      const [fullName, shortName] = line.split("\0");
+      if (!fullName || !shortName || fullName.endsWith("/HEAD")) {
+        continue;
+      }
+      if (fullName.startsWith("refs/heads/")) {
+        refs.push({ name: shortName, kind: "branch" });
+      } else if (fullName.startsWith("refs/remotes/")) {
+        refs.push({ name: shortName, kind: "remote" });
+      } else {
+        refs.push({ name: shortName, kind: "tag" });
+      }
     }
+    return refs;
+  } catch (error) {
+    output.appendLine(`Failed to list refs: ${stringifyError(error)}`);
+    return [];
   }
-
-  if (await doesRefExist(repoRoot, "main")) {
-    return "main";
-  } else if (await doesRefExist(repoRoot, "master")) {
-    return "master";
-  }
-
-  return undefined;
 }
 
 /**
- * Checks whether a git ref exists in the repository.
+ * Returns the merge-base of the base ref and head, i.e. the commit the branch diff starts from.
+ * Falls back to undefined when the refs share no history.
  */
-export async function doesRefExist(repoRoot: string, ref: string): Promise<boolean> {
+export async function getMergeBase(
+  repoRoot: string,
+  baseRef: string,
+  headRef = "HEAD"
+): Promise<string | undefined> {
   try {
-    await execGit(repoRoot, ["rev-parse", "--verify", ref]);
-    return true;
-  } catch {
-    return false;
+    const { stdout } = await execGit(repoRoot, ["merge-base", baseRef, headRef]);
+    return stdout.trim() || undefined;
+  } catch (error) {
+    output.appendLine(`Failed to find merge-base of ${baseRef} and ${headRef}: ${stringifyError(error)}`);
+    return undefined;
   }
 }
 
 /**
  * Returns repo-relative file paths changed between base and head refs.
+ * When requested, staged, unstaged and untracked working-tree changes are merged in.
  */
 export async function getChangedFiles(
   repoRoot: string,
   baseRef: string,
-  headRef: string
+  headRef: string,
+  includeWorkingTree = false
 ): Promise<ChangedFile[]> {
+  let committed: ChangedFile[];
   try {
-    const { stdout } = await execGit(repoRoot, ["diff", "--name-status", `${baseRef}...${headRef}`]);
-    return stdout
-      .split(/\r?\n/)
-      .map((line) => line.trim())
-      .filter((line) => line.length > 0)
-      .map((line) => parseNameStatus(line))
-      .filter((entry): entry is ChangedFile => Boolean(entry));
+    const { stdout } = await execGit(repoRoot, [
+      "diff",
+      "--name-status",
+      ...RENAME_DETECTION_ARGS,
+      `${baseRef}...${headRef}`
+    ]);
+    committed = parseNameStatusOutput(stdout, "committed");
   } catch (error) {
     output.appendLine(`Failed to diff ${baseRef}...${headRef}: ${stringifyError(error)}`);
     return [];
   }
+
+  if (!includeWorkingTree) {
+    return committed;
+  }
+
+  const workingTree = await getWorkingTreeChanges(repoRoot);
+  return mergeChangedFiles(committed, workingTree);
 }
 
 /**
- * Filters changed files to only those last authored by the current git author.
+ * Returns repo-relative paths whose contents differ between two commits or refs.
  */
-export async function filterChangedFilesByCurrentAuthor(
+export async function getFilesChangedBetween(
   repoRoot: string,
-  headRef: string,
-  files: ChangedFile[]
-): Promise<ChangedFile[]> {
-  if (files.length === 0) {
-    return files;
-  }
-
-  const currentAuthor = await getCurrentAuthor(repoRoot);
-  if (!currentAuthor) {
-    output.appendLine("Current git author could not be determined; author filter produced no files.");
+  fromRef: string,
+  toRef: string
+): Promise<string[]> {
+  try {
+    const { stdout } = await execGit(repoRoot, ["diff", "--name-only", fromRef, toRef]);
+    return stdout
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0);
+  } catch (error) {
+    output.appendLine(`Failed to diff ${fromRef}..${toRef}: ${stringifyError(error)}`);
     return [];
   }
+}
 
+/**
+ * Returns staged, unstaged and untracked (non-gitignored) changes in the working tree.
+ */
+export async function getWorkingTreeChanges(repoRoot: string): Promise<ChangedFile[]> {
   try {
-    const changedPaths = files.map((file) => file.path);
-    const authorByPath = await getLatestAuthorByPath(repoRoot, headRef, changedPaths);
-    const filtered = files.filter((file) => {
-      const fileAuthor = authorByPath.get(file.path);
-      return fileAuthor ? doesAuthorMatch(fileAuthor, currentAuthor) : false;
-    });
+    const [staged, unstaged, untracked] = await Promise.all([
+      execGit(repoRoot, ["diff", "--name-status", ...RENAME_DETECTION_ARGS, "--cached"]),
+      execGit(repoRoot, ["diff", "--name-status", ...RENAME_DETECTION_ARGS]),
+      execGit(repoRoot, ["ls-files", "--others", "--exclude-standard"])
+    ]);
+    const untrackedFiles = untracked.stdout
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0)
+      .map((filePath): ChangedFile => ({ path: filePath, kind: "added", sources: ["untracked"] }));
 
-    output.appendLine(
-      `Files after author filter: ${filtered.length} of ${files.length} match current author.`
+    return mergeChangedFiles(
+      parseNameStatusOutput(staged.stdout, "staged"),
+      parseNameStatusOutput(unstaged.stdout, "unstaged"),
+      untrackedFiles
     );
-    return filtered;
   } catch (error) {
-    output.appendLine(`Failed to apply author filter: ${stringifyError(error)}`);
+    output.appendLine(`Failed to read working tree changes: ${stringifyError(error)}`);
     return [];
   }
 }
 
+/**
+ * Parses `git diff --name-status` output into ChangedFile entries.
+ */
+function parseNameStatusOutput(stdout: string, source: ChangeSource): ChangedFile[] {
+  return stdout
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+    .map((line) => parseNameStatus(line, source))
+    .filter((entry): entry is ChangedFile => Boolean(entry));
+}
+
 /**
  * Parses a git name-status line into a ChangedFile entry.
  */
-function parseNameStatus(line: string): ChangedFile | undefined {
+function parseNameStatus(line: string, source: ChangeSource): ChangedFile | undefined {
   const parts = line.split(/\t+/);
   const status = parts[0];
   if (!status) {
@@ -128,12 +184,20 @@ function parseNameStatus(line: string): ChangedFile | undefined {
   }
 
   if (status.startsWith("R") || status.startsWith("C")) {
+    const oldPath = parts[1];
     const newPath = parts[2];
-    if (!newPath) {
+    if (!oldPath || !newPath) {
       return undefined;
     }
 
-    return { path: newPath, kind: "modified" };
+    const score = Number.parseInt(status.slice(1), 10);
+    return {
+      path: newPath,
+      kind: status.startsWith("R") ? "renamed" : "copied",
+      sources: [source],
+      oldPath,
+      similarity: Number.isNaN(score) ? undefined : score
+    };
   }
 
   const filePath = parts[1];
@@ -141,135 +205,29 @@ function parseNameStatus(line: string): ChangedFile | undefined {
     return undefined;
   }
 
-  if (status === "A") {
-    return { path: filePath, kind: "added" };
-  } else if (status === "M") {
-    return { path: filePath, kind: "modified" };
-  }
-
-  return undefined;
-}
-
-/**
- * Reads the active git author identity from repository config.
- */
-async function getCurrentAuthor(repoRoot: string): Promise<GitAuthor | undefined> {
-  const [email, name] = await Promise.all([
-    getGitConfigValue(repoRoot, "user.email"),
-    getGitConfigValue(repoRoot, "user.name")
-  ]);
-  if (!email && !name) {
-    return undefined;
-  }
-
-  return { email, name };
+  const kind = NAME_STATUS_KINDS[status];
+  return kind ? { path: filePath, kind, sources: [source] } : undefined;
 }
 
 /**
- * Gets last commit author metadata for each path on the given ref.
+ * Merges change lists by path, keeping the first kind seen and combining sources.
  */
-async function getLatestAuthorByPath(
-  repoRoot: string,
-  ref: string,
-  paths: string[]
-): Promise<Map<string, GitAuthor>> {
-  const wanted = new Set(paths);
-  const result = new Map<string, GitAuthor>();
-  if (wanted.size === 0) {
-    return result;
-  }
-
-  const { stdout } = await execGit(repoRoot, [
-    "log",
-    `--format=${AUTHOR_MARKER}%x00%ae%x00%an`,
-    "-z",
-    "--name-only",
-    ref,
-    "--",
-    ...paths
-  ]);
-
-  const tokens = stdout.split("\0");
-  let currentAuthor: GitAuthor | undefined;
-  for (let index = 0; index < tokens.length; index += 1) {
-    const token = tokens[index] ?? "";
-    if (token === AUTHOR_MARKER) {
-      currentAuthor = {
-        email: (tokens[index + 1] ?? "").trim(),
-        name: (tokens[index + 2] ?? "").trim()
-      };
-      index += 2;
-      continue;
+function mergeChangedFiles(...lists: ChangedFile[][]): ChangedFile[] {
+  const byPath = new Map<string, ChangedFile>();
+  for (const list of lists) {
+    for (const file of list) {
+      const existing = byPath.get(file.path);
+      if (!existing) {
+        byPath.set(file.path, { ...file, sources: [...file.sources] });
+        continue;
+      }
+      for (const source of file.sources) {
+        if (!existing.sources.includes(source)) {
+          existing.sources.push(source);
+        }
+      }
     }
-
-    const filePath = token.trim();
-    if (!currentAuthor || !filePath || !wanted.has(filePath) || result.has(filePath)) {
-      continue;
-    }
-    result.set(filePath, currentAuthor);
-    if (result.size === wanted.size) {
-      break;
-    }
-  }
-
-  return result;
-}
-
-/**
- * Reads a git config value from repo or global scope.
- */
-async function getGitConfigValue(repoRoot: string, key: string): Promise<string | undefined> {
-  try {
-    const { stdout } = await execGit(repoRoot, ["config", "--get", key]);
-    const value = stdout.trim();
-    return value.length > 0 ? value : undefined;
-  } catch {
-    return undefined;
-  }
-}
-
-/**
- * Compares file author metadata against the current git author.
- */
-function doesAuthorMatch(fileAuthor: GitAuthor, currentAuthor: GitAuthor): boolean {
-  const expectedEmail = normalizeIdentity(currentAuthor.email);
-  if (expectedEmail) {
-    return normalizeIdentity(fileAuthor.email) === expectedEmail;
-  }
-
-  const expectedName = normalizeIdentity(currentAuthor.name);
-  if (expectedName) {
-    return normalizeIdentity(fileAuthor.name) === expectedName;
-  }
-
-  return false;
-}
-
-/**
- * Normalizes identity fields for case-insensitive matching.
- */
-function normalizeIdentity(value?: string): string {
-  return (value ?? "").trim().toLowerCase();
-}
-
-/**
- * Executes a git command in the repository root.
- */
-async function execGit(repoRoot: string, args: string[]) {
-  return execFileAsync("git", args, {
-    cwd: repoRoot,
-    windowsHide: true,
-    env: { ...process.env, GIT_OPTIONAL_LOCKS: "0" }
-  });
-}
-
-/**
- * Formats an error into a readable message.
- */
-function stringifyError(error: unknown): string {
-  if (error instanceof Error) {
-    return error.message;
   }
 
-  return String(error);
+  return [...byPath.values()];
 }
@@ -0,0 +1,56 @@
+import { Repository } from "../core/types";
+import { output } from "../core/logger";
+import { stringifyError } from "../core/errors";
+import { execGit } from "./exec";
+
+export type HeadState = {
+  // Ref to diff against the base: the branch name, or the commit SHA when detached.
+  ref: string;
+  // Branch name, or tag name / short SHA when detached.
+  label: string;
+  // Branch name; undefined when HEAD is detached.
+  branch?: string;
+  commit?: string;
+  tag?: string;
+  detached: boolean;
+};
+
+/**
+ * Returns the ref HEAD points at: the branch name, or the commit SHA when detached.
+ */
+export function getHeadRef(repo: Repository): string | undefined {
+  return repo.state.HEAD?.name ?? repo.state.HEAD?.commit;
+}
+
+/**
+ * Describes HEAD as a branch or a detached commit. Detached commits are labelled with a tag
+ * pointing at them when there is one, otherwise with the short SHA.
+ */
+export async function getHeadState(repo: Repository): Promise<HeadState | undefined> {
+  const branch = repo.state.HEAD?.name;
+  const commit = repo.state.HEAD?.commit;
+  if (branch) {
+    return { ref: branch, label: branch, branch, commit, detached: false };
+  } else if (!commit) {
+    return undefined;
+  }
+
+  const tag = await findTagAtCommit(repo.rootUri.fsPath, commit);
+  return { ref: commit, label: tag ?? commit.slice(0, 7), commit, tag, detached: true };
+}
+
+/**
+ * Returns the most recently created tag pointing at the commit, if any.
+ */
+async function findTagAtCommit(repoRoot: string, commit: string): Promise<string | undefined> {
+  try {
+    const { stdout } = await execGit(repoRoot, ["tag", "--points-at", commit, "--sort=-creatordate"]);
+    return stdout
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .find((line) => line.length > 0);
+  } catch (error) {
+    output.appendLine(`Failed to list tags at ${commit.slice(0, 7)}: ${stringifyError(error)}`);
+    return undefined;
+  }
+}
@@ -0,0 +1,78 @@
+import { output } from "../core/logger";
+import { getMergeBase } from "./gitDiff";
+import { stringifyError } from "../core/errors";
+import { execGit } from "./exec";
+
+const HUNK_HEADER_PATTERN = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/;
+
+export type Hunk = {
+  // 1-based first line of the hunk in the working-tree file.
+  startLine: number;
+  // Number of working-tree lines in the hunk; 0 for pure deletions.
+  lineCount: number;
+};
+
+/**
+ * Returns the changed hunks of the working tree against a ref, per repo-relative path.
+ * When mergeBase is set the diff starts at the merge-base of the ref and HEAD, matching the
+ * branch diff used for the changed-file list. Files without changes are absent from the map.
+ */
+export async function getWorkingTreeHunks(
+  repoRoot: string,
+  ref: string,
+  paths: string[],
+  options: { mergeBase: boolean }
+): Promise<Map<string, Hunk[]>> {
+  const result = new Map<string, Hunk[]>();
+  if (paths.length === 0) {
+    return result;
+  }
+
+  const fromRef = options.mergeBase ? (await getMergeBase(repoRoot, ref)) ?? ref : ref;
+  try {
+    const { stdout } = await execGit(repoRoot, [
+      "-c",
+      "core.quotePath=false",
+      "diff",
+      "-U0",
+      "--no-color",
+      "--no-ext-diff",
+      "--no-prefix",
+      fromRef,
+      "--",
+      ...paths
+    ]);
+    parseUnifiedDiff(stdout, result);
+  } catch (error) {
+    output.appendLine(`Failed to compute changed hunks against ${ref}: ${stringifyError(error)}`);
+  }
+  return result;
+}
+
+/**
+ * Parses zero-context unified diff output into hunks keyed by the new file path.
+ */
+function parseUnifiedDiff(diff: string, result: Map<string, Hunk[]>): void {
+  let currentHunks: Hunk[] | undefined;
+  for (const line of diff.split(/\r?\n/)) {
+    if (line.startsWith("+++ ")) {
+      const target = line.slice(4).replace(/\t$/, "");
+      if (target === "/dev/null") {
+        currentHunks = undefined;
+        continue;
+      }
+      currentHunks = [];
+      result.set(target, currentHunks);
+      continue;
+    }
+
+    const match = HUNK_HEADER_PATTERN.exec(line);
+    if (!match || !currentHunks) {
+      continue;
+    }
+    const lineCount = match[2] === undefined ? 1 : Number(match[2]);
+    // Pure deletions report the line before the removed block; point at the line after it.
+    const startLine = lineCount === 0 ? Number(match[1]) + 1 : Number(match[1]);
+    currentHunks.push({ startLine: Math.max(startLine, 1), lineCount });
+  }
+}
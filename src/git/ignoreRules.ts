@@ -0,0 +1,89 @@
+import { globToRegExpSource } from "../core/patternCompiler";
+
+export type IgnoreRule = {
+  // Repo-relative directory of the .branchtabsignore file that declared the rule ("" for the root).
+  baseDir: string;
+  regex: RegExp;
+  negate: boolean;
+  dirOnly: boolean;
+};
+
+/**
+ * Applies gitignore semantics: a path is excluded when it, or any parent directory, is matched by
+ * a rule and not re-included by a later negation. As in git, files inside an excluded directory
+ * cannot be re-included.
+ */
+export function isIgnored(rules: IgnoreRule[], repoRelativePath: string): boolean {
+  const segments = repoRelativePath.split("/").filter((segment) => segment.length > 0);
+  for (let depth = 1; depth <= segments.length; depth += 1) {
+    const candidate = segments.slice(0, depth).join("/");
+    if (matchRules(rules, candidate, depth < segments.length)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Parses one .branchtabsignore line using gitignore syntax.
+ */
+export function parseRule(line: string, baseDir: string): IgnoreRule | undefined {
+  // Trailing spaces are ignored unless escaped with a backslash.
+  let pattern = line.replace(/(?<!\\)\s+$/, "");
+  if (!pattern || pattern.startsWith("#")) {
+    return undefined;
+  }
+
+  let negate = false;
+  if (pattern.startsWith("!")) {
+    negate = true;
+    pattern = pattern.slice(1);
+  } else if (pattern.startsWith("\\!") || pattern.startsWith("\\#")) {
+    pattern = pattern.slice(1);
+  }
+
+  let dirOnly = false;
+  if (pattern.endsWith("/")) {
+    dirOnly = true;
+    pattern = pattern.slice(0, -1);
+  }
+
+  // A slash at the start or in the middle anchors the pattern to the file's directory;
+  // otherwise it matches a name at any depth.
+  const anchored = pattern.includes("/");
+  if (pattern.startsWith("/")) {
+    pattern = pattern.slice(1);
+  }
+  if (!pattern) {
+    return undefined;
+  }
+
+  const body = globToRegExpSource(pattern);
+  return {
+    baseDir,
+    regex: new RegExp(anchored ? `^${body}$` : `^(?:.*/)?${body}$`),
+    negate,
+    dirOnly
+  };
+}
+
+/**
+ * Returns the verdict of the last rule matching the path; rules from deeper files come later.
+ */
+function matchRules(rules: IgnoreRule[], candidate: string, isDirectory: boolean): boolean {
+  let ignored = false;
+  for (const rule of rules) {
+    if (rule.dirOnly && !isDirectory) {
+      continue;
+    }
+    if (rule.baseDir && !candidate.startsWith(`${rule.baseDir}/`)) {
+      continue;
+    }
+
+    const relative = rule.baseDir ? candidate.slice(rule.baseDir.length + 1) : candidate;
+    if (rule.regex.test(relative)) {
+      ignored = !rule.negate;
+    }
+  }
+  return ignored;
+}
@@ -0,0 +1,83 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { GitOperation } from "../core/types";
+import { output } from "../core/logger";
+import { stringifyError } from "../core/errors";
+import { execGit } from "./exec";
+
+const gitDirByRepo = new Map<string, string>();
+
+// Files git keeps in the git directory while an operation is in progress; the first match wins.
+const OPERATION_MARKERS: [string, GitOperation][] = [
+  ["rebase-merge", "rebase"],
+  ["rebase-apply", "rebase"],
+  ["MERGE_HEAD", "merge"],
+  ["CHERRY_PICK_HEAD", "cherryPick"],
+  ["REVERT_HEAD", "revert"],
+  ["BISECT_LOG", "bisect"]
+];
+
+export const GIT_OPERATION_LABELS: Record<GitOperation, string> = {
+  rebase: "rebase",
+  merge: "merge",
+  cherryPick: "cherry-pick",
+  revert: "revert",
+  bisect: "bisect"
+};
+
+/**
+ * Returns the git operation in progress in the repository (rebase, merge, cherry-pick, revert or
+ * bisect), detected from the marker files git keeps in the git directory.
+ */
+export async function getInProgressOperation(repoRoot: string): Promise<GitOperation | undefined> {
+  const gitDir = await getGitDir(repoRoot);
+  if (!gitDir) {
+    return undefined;
+  }
+
+  for (const [marker, operation] of OPERATION_MARKERS) {
+    try {
+      await vscode.workspace.fs.stat(vscode.Uri.file(path.join(gitDir, marker)));
+      return operation;
+    } catch {
+      // Marker absent.
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Returns repo-relative paths with unresolved merge conflicts.
+ */
+export async function getConflictedFiles(repoRoot: string): Promise<string[]> {
+  try {
+    const { stdout } = await execGit(repoRoot, ["diff", "--name-only", "--diff-filter=U"]);
+    return stdout
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0);
+  } catch (error) {
+    output.appendLine(`Failed to list conflicted files: ${stringifyError(error)}`);
+    return [];
+  }
+}
+
+/**
+ * Resolves the repository's git directory, which is not `.git` for worktrees and submodules.
+ */
+async function getGitDir(repoRoot: string): Promise<string | undefined> {
+  const cached = gitDirByRepo.get(repoRoot);
+  if (cached) {
+    return cached;
+  }
+
+  try {
+    const { stdout } = await execGit(repoRoot, ["rev-parse", "--git-dir"]);
+    const gitDir = path.resolve(repoRoot, stdout.trim());
+    gitDirByRepo.set(repoRoot, gitDir);
+    return gitDir;
+  } catch (error) {
+    output.appendLine(`Failed to resolve git directory for ${repoRoot}: ${stringifyError(error)}`);
+    return undefined;
+  }
+}
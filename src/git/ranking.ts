@@ -0,0 +1,153 @@
+import { ChangedFile, RankingStrategy } from "../core/types";
+import { output } from "../core/logger";
+import { stringifyError } from "../core/errors";
+import { execGit } from "./exec";
+
+const COMMIT_MARKER = "__BCT_COMMIT__";
+
+export type LineStats = {
+  added: number;
+  deleted: number;
+};
+
+type CommitStats = {
+  lastCommitTime: number;
+  commitCount: number;
+};
+
+/**
+ * Orders changed files by the configured ranking strategy, most interesting first.
+ * Ties (and "alphabetical") fall back to repo-relative path order.
+ */
+export async function rankChangedFiles(
+  repoRoot: string,
+  baseRef: string,
+  headRef: string,
+  files: ChangedFile[],
+  strategy: RankingStrategy
+): Promise<ChangedFile[]> {
+  const byPath = (a: ChangedFile, b: ChangedFile) => a.path.localeCompare(b.path);
+  if (strategy === "alphabetical" || files.length < 2) {
+    return [...files].sort(byPath);
+  }
+
+  let scores: Map<string, number>;
+  try {
+    scores = await getRankingScores(repoRoot, baseRef, headRef, strategy);
+  } catch (error) {
+    output.appendLine(`Failed to rank files by ${strategy}: ${stringifyError(error)}`);
+    return [...files].sort(byPath);
+  }
+
+  return [...files].sort((a, b) => {
+    const difference = (scores.get(b.path) ?? 0) - (scores.get(a.path) ?? 0);
+    return difference !== 0 ? difference : byPath(a, b);
+  });
+}
+
+/**
+ * Returns added/deleted line counts per path for the branch diff (binary files count as 0).
+ */
+export async function getLineStats(
+  repoRoot: string,
+  baseRef: string,
+  headRef: string
+): Promise<Map<string, LineStats>> {
+  const { stdout } = await execGit(repoRoot, ["diff", "--numstat", "-z", `${baseRef}...${headRef}`]);
+  const result = new Map<string, LineStats>();
+  const tokens = stdout.split("\0");
+  for (let index = 0; index < tokens.length; index += 1) {
+    const token = tokens[index] ?? "";
+    const match = /^(-|\d+)\t(-|\d+)\t(.*)$/.exec(token);
+    if (!match) {
+      continue;
+    }
+
+    let filePath = match[3];
+    if (!filePath) {
+      // Renames and copies are followed by separate old and new path tokens.
+      filePath = tokens[index + 2] ?? "";
+      index += 2;
+    }
+    if (!filePath) {
+      continue;
+    }
+    result.set(filePath, {
+      added: match[1] === "-" ? 0 : Number(match[1]),
+      deleted: match[2] === "-" ? 0 : Number(match[2])
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Computes a numeric score per path for the given strategy; higher ranks first.
+ */
+async function getRankingScores(
+  repoRoot: string,
+  baseRef: string,
+  headRef: string,
+  strategy: Exclude<RankingStrategy, "alphabetical">
+): Promise<Map<string, number>> {
+  const scores = new Map<string, number>();
+  switch (strategy) {
+    case "linesChanged": {
+      const stats = await getLineStats(repoRoot, baseRef, headRef);
+      for (const [filePath, { added, deleted }] of stats) {
+        scores.set(filePath, added + deleted);
+      }
+      return scores;
+    }
+    case "recentlyCommitted":
+    case "commitCount": {
+      const stats = await getBranchCommitStats(repoRoot, baseRef, headRef);
+      for (const [filePath, { lastCommitTime, commitCount }] of stats) {
+        scores.set(filePath, strategy === "commitCount" ? commitCount : lastCommitTime);
+      }
+      return scores;
+    }
+  }
+}
+
+/**
+ * Collects last commit time and commit count per path for commits in base..head.
+ */
+async function getBranchCommitStats(
+  repoRoot: string,
+  baseRef: string,
+  headRef: string
+): Promise<Map<string, CommitStats>> {
+  const { stdout } = await execGit(repoRoot, [
+    "log",
+    `--format=${COMMIT_MARKER}%x00%ct`,
+    "-z",
+    "--name-only",
+    `${baseRef}..${headRef}`
+  ]);
+
+  const result = new Map<string, CommitStats>();
+  const tokens = stdout.split("\0");
+  let commitTime: number | undefined;
+  for (let index = 0; index < tokens.length; index += 1) {
+    const token = (tokens[index] ?? "").trim();
+    if (token === COMMIT_MARKER) {
+      commitTime = Number(tokens[index + 1] ?? "0");
+      index += 1;
+      continue;
+    }
+    if (!token || commitTime === undefined) {
+      continue;
+    }
+
+    const existing = result.get(token);
+    if (existing) {
+      existing.commitCount += 1;
+    } else {
+      // git log lists newest commits first, so the first sighting is the latest commit.
+      result.set(token, { lastCommitTime: commitTime, commitCount: 1 });
+    }
+  }
+
+  return result;
+}
@@ -1,27 +1,64 @@
 import * as vscode from "vscode";
 import * as path from "path";
-import { execFile } from "child_process";
-import { promisify } from "util";
-import { GitExtension } from "./core/types";
+import { GitExtension, Repository } from "./core/types";
 import { output } from "./core/logger";
 import { initRepositoryTracking, clearAllExtensionTrackedRepositories } from "./state/repoEnablement";
 import { trackRepository } from "./watchers/repoWatcher";
-import { closeAllPinnedTabsInActiveGroup, closeTabsForFile, getEditorActiveRepository } from "./ui/ui";
-import { openRepositoryChangedFiles } from "./features/changedFiles/openChangedFiles";
+import {
+  closeAllPinnedTabsInActiveGroup,
+  closeTabsForFile,
+  getEditorActiveRepository,
+  pinExtensionEditor,
+  reconcileOpenedTabs,
+  recordPinnedTabs,
+  restoreEditorSession
+} from "./ui/ui";
+import {
+  closeTabsBeforeOpen,
+  openRepositoryChangedFiles
+} from "./features/changedFiles/openChangedFiles";
 import {
   ChangedFilesView,
   ChangedFileItem,
+  ChangedFolderItem,
+  ChangedRepositoryItem,
   COMMAND_VIEW_OPEN_FILE,
-  COMMAND_VIEW_SEARCH_FILES
+  COMMAND_VIEW_SEARCH_FILES,
+  COMMAND_VIEW_SHOW_DIFF_MAIN
 } from "./features/changedFiles/changedFilesView";
-import { doesRefExist, resolveBaseRef } from "./git/gitDiff";
+import { goToBranchHunk } from "./features/changedFiles/branchHunks";
+import { doesRefExist, getMergeBase, GitRefEntry, listRefs } from "./git/gitDiff";
+import { resolveBaseRef } from "./git/baseRef";
+import { BRANCH_TABS_IGNORE_FILE, invalidateBranchTabsIgnoreRules } from "./git/branchTabsIgnore";
+import {
+  BASE_CONTENT_SCHEME,
+  BaseContentProvider,
+  toBaseContentUri,
+  toEmptyContentUri
+} from "./git/baseContentProvider";
 import { getExtensionSettings } from "./core/settings";
+import { clearPatternCache } from "./core/patterns";
 import {
   addWorkspaceIgnoredFile,
+  addWorkspaceIgnoredFiles,
   getWorkspaceIgnoredFiles,
+  isWorkspaceIgnoredPath,
   removeWorkspaceIgnoredFile
 } from "./state/ignoredFiles";
-import { getRepositoryState } from "./state/repoState";
+import {
+  addIgnoredPattern,
+  exportIgnoredFiles,
+  importIgnoredFiles,
+  pruneIgnoredFiles,
+  showIgnoredFilesPicker
+} from "./features/ignoredFiles/manageIgnoredFiles";
+import { getAllRepositoryStates, getRepositoryState, verifyRepositoryState } from "./state/repoState";
+import { lastVisitDecorations } from "./ui/lastVisitDecorations";
+import { getHeadRef, getHeadState } from "./git/head";
+import { deleteSessionSnapshots, listSessionSnapshots } from "./state/sessionSnapshots";
+import { getSelectedBaseRef, setSelectedBaseRef } from "./state/baseRefSelections";
+import { getPinnedFileSet, setPinnedFileSet } from "./state/pinnedFileSets";
+import { SessionSnapshot } from "./core/types";
 
 const COMMAND_DEV_CLEAR = "branchTabs.dev.clearRepositoryDecisions";
 const COMMAND_OPEN_CHANGED_FILES = "branchTabs.openChangedFiles";
@@ -29,8 +66,25 @@ const COMMAND_TOGGLE_IGNORE_ACTIVE_FILE = "branchTabs.toggleIgnoreActiveFile";
 const COMMAND_CLOSE_PINNED_GROUP_TABS = "branchTabs.closePinnedTabsInGroup";
 const COMMAND_VIEW_IGNORE_FILE = "branchTabs.changedFiles.ignoreFile";
 const COMMAND_VIEW_UNIGNORE_FILE = "branchTabs.changedFiles.unignoreFile";
-const COMMAND_VIEW_SHOW_DIFF_MAIN = "branchTabs.changedFiles.showDiffMain";
-const execFileAsync = promisify(execFile);
+const COMMAND_VIEW_AS_TREE = "branchTabs.changedFiles.viewAsTree";
+const COMMAND_VIEW_AS_LIST = "branchTabs.changedFiles.viewAsList";
+const COMMAND_VIEW_OPEN_FOLDER = "branchTabs.changedFiles.openFolder";
+const COMMAND_VIEW_IGNORE_FOLDER = "branchTabs.changedFiles.ignoreFolder";
+const COMMAND_VIEW_SHOW_DIFF_FOLDER = "branchTabs.changedFiles.showDiffFolder";
+const COMMAND_VIEW_REFRESH_REPOSITORY = "branchTabs.changedFiles.refreshRepository";
+const COMMAND_VIEW_OPEN_REPOSITORY = "branchTabs.changedFiles.openRepository";
+const COMMAND_SELECT_BASE_REF = "branchTabs.selectBaseRef";
+const COMMAND_OPEN_MULTI_DIFF = "branchTabs.openBranchChangesInMultiDiff";
+const COMMAND_NEXT_BRANCH_HUNK = "branchTabs.nextBranchHunk";
+const COMMAND_PREVIOUS_BRANCH_HUNK = "branchTabs.previousBranchHunk";
+const COMMAND_LIST_SESSION_SNAPSHOTS = "branchTabs.listSessionSnapshots";
+const COMMAND_DELETE_SESSION_SNAPSHOTS = "branchTabs.deleteSessionSnapshots";
+const COMMAND_CLEAR_PINNED_FILE_SET = "branchTabs.clearPinnedFileSet";
+const COMMAND_MANAGE_IGNORED_FILES = "branchTabs.manageIgnoredFiles";
+const COMMAND_ADD_IGNORED_PATTERN = "branchTabs.addIgnoredPattern";
+const COMMAND_PRUNE_IGNORED_FILES = "branchTabs.pruneIgnoredFiles";
+const COMMAND_EXPORT_IGNORED_FILES = "branchTabs.exportIgnoredFiles";
+const COMMAND_IMPORT_IGNORED_FILES = "branchTabs.importIgnoredFiles";
 
 /**
  * Entry point for the extension; wires up git repository listeners.
@@ -44,8 +98,16 @@ export function activate(context: vscode.ExtensionContext) {
   }
 
   const git = gitExtension.getAPI(1);
-  const changedFilesView = new ChangedFilesView(getEditorActiveRepository, (repoRoot) =>
-    getWorkspaceIgnoredFiles(context, repoRoot)
+  const baseContentProvider = new BaseContentProvider();
+  context.subscriptions.push(
+    vscode.workspace.registerTextDocumentContentProvider(BASE_CONTENT_SCHEME, baseContentProvider)
+  );
+  context.subscriptions.push(vscode.window.registerFileDecorationProvider(lastVisitDecorations));
+  const changedFilesView = new ChangedFilesView(
+    getEditorActiveRepository,
+    () => git.repositories,
+    (repoRoot) => getWorkspaceIgnoredFiles(context, repoRoot),
+    (repoRoot, branch) => getSelectedBaseRef(context, repoRoot, branch)
   );
   const changedFilesTree = vscode.window.createTreeView("branchTabs.changedFiles", {
     treeDataProvider: changedFilesView
@@ -57,12 +119,26 @@ export function activate(context: vscode.ExtensionContext) {
     })
   );
   context.subscriptions.push(changedFilesTree);
+  context.subscriptions.push(
+    changedFilesView.onDidChangeTreeData(() => {
+      changedFilesTree.description = changedFilesView.getHeaderDescription();
+    })
+  );
+  void updateViewModeContext();
+
+  recordPinnedTabs();
+  context.subscriptions.push(
+    vscode.window.tabGroups.onDidChangeTabs((event) => {
+      reconcileOpenedTabs(event, getAllRepositoryStates());
+    })
+  );
 
   for (const repo of git.repositories) {
     void trackRepository(repo, context);
     context.subscriptions.push(
       repo.state.onDidChange(() => {
-        changedFilesView.refresh();
+        baseContentProvider.updateHead(repo.rootUri.fsPath, repo.state.HEAD?.commit);
+        changedFilesView.refresh(repo.rootUri.fsPath);
       })
     );
   }
@@ -72,23 +148,43 @@ export function activate(context: vscode.ExtensionContext) {
       void trackRepository(repo, context);
       context.subscriptions.push(
         repo.state.onDidChange(() => {
-          changedFilesView.refresh();
+          baseContentProvider.updateHead(repo.rootUri.fsPath, repo.state.HEAD?.commit);
+          changedFilesView.refresh(repo.rootUri.fsPath);
         })
       );
-      changedFilesView.refresh();
+      changedFilesView.refresh(repo.rootUri.fsPath);
     })
   );
   context.subscriptions.push(
-    vscode.window.onDidChangeActiveTextEditor(() => changedFilesView.refresh())
+    vscode.window.onDidChangeActiveTextEditor(() => changedFilesView.refreshLayout())
   );
   context.subscriptions.push(
     vscode.workspace.onDidChangeConfiguration((event) => {
       if (event.affectsConfiguration("branchTabs")) {
+        clearPatternCache();
+        void updateViewModeContext();
         changedFilesView.refresh();
       }
     })
   );
 
+  const branchTabsIgnoreWatcher = vscode.workspace.createFileSystemWatcher(
+    `**/${BRANCH_TABS_IGNORE_FILE}`
+  );
+  const onBranchTabsIgnoreChanged = (uri: vscode.Uri) => {
+    const repo = git.repositories.find((candidate) =>
+      isPathInRepo(uri.fsPath, candidate.rootUri.fsPath)
+    );
+    invalidateBranchTabsIgnoreRules(repo?.rootUri.fsPath);
+    changedFilesView.refresh(repo?.rootUri.fsPath);
+  };
+  context.subscriptions.push(
+    branchTabsIgnoreWatcher,
+    branchTabsIgnoreWatcher.onDidCreate(onBranchTabsIgnoreChanged),
+    branchTabsIgnoreWatcher.onDidChange(onBranchTabsIgnoreChanged),
+    branchTabsIgnoreWatcher.onDidDelete(onBranchTabsIgnoreChanged)
+  );
+
   if (context.extensionMode === vscode.ExtensionMode.Development) {
     const clearCommand = vscode.commands.registerCommand(COMMAND_DEV_CLEAR, async () => {
       await clearAllExtensionTrackedRepositories();
@@ -107,7 +203,7 @@ export function activate(context: vscode.ExtensionContext) {
       return;
     }
 
-    await openRepositoryChangedFiles(repo, {
+    await openRepositoryChangedFiles(repo, context, {
       ignoreEnablement: true,
       workspaceIgnoredFiles: getWorkspaceIgnoredFiles(context, repo.rootUri.fsPath)
     });
@@ -144,16 +240,16 @@ export function activate(context: vscode.ExtensionContext) {
         return;
       }
 
-      const ignored = getWorkspaceIgnoredFiles(context, repo.rootUri.fsPath).has(repoRelativePath);
-      if (ignored) {
+      const ignoredFiles = getWorkspaceIgnoredFiles(context, repo.rootUri.fsPath);
+      if (isWorkspaceIgnoredPath(repoRelativePath, ignoredFiles)) {
         const removed = await removeWorkspaceIgnoredFile(context, repo.rootUri.fsPath, repoRelativePath);
         if (!removed) {
           void vscode.window.showInformationMessage(
-            `Branch Change Tabs: "${repoRelativePath}" is not currently ignored.`
+            `Branch Change Tabs: "${repoRelativePath}" is ignored by a glob entry; use "Manage Ignored Files" to remove it.`
           );
           return;
         }
-        await vscode.commands.executeCommand("workbench.action.pinEditor");
+        await pinExtensionEditor(activeUri);
         getRepositoryState(repo.rootUri.fsPath)?.openedFiles.add(activeUri.toString());
         void vscode.window.showInformationMessage(
           `Branch Change Tabs: "${repoRelativePath}" is no longer ignored and was pinned.`
@@ -243,7 +339,9 @@ export function activate(context: vscode.ExtensionContext) {
       const removed = await removeWorkspaceIgnoredFile(context, item.repoRoot, item.changedFile.path);
       if (!removed) {
         void vscode.window.showInformationMessage(
-          `Branch Change Tabs: "${item.changedFile.path}" is not currently ignored.`
+          isWorkspaceIgnoredPath(item.changedFile.path, getWorkspaceIgnoredFiles(context, item.repoRoot))
+            ? `Branch Change Tabs: "${item.changedFile.path}" is ignored by a glob entry; use "Manage Ignored Files" to remove it.`
+            : `Branch Change Tabs: "${item.changedFile.path}" is not currently ignored.`
         );
         return;
       }
@@ -252,17 +350,17 @@ export function activate(context: vscode.ExtensionContext) {
           preview: false,
           preserveFocus: false
         });
-        await vscode.commands.executeCommand("workbench.action.pinEditor");
+        await pinExtensionEditor(item.fileUri);
         getRepositoryState(item.repoRoot)?.openedFiles.add(item.fileUri.toString());
+        void vscode.window.showInformationMessage(
+          `Branch Change Tabs: "${item.changedFile.path}" is no longer ignored and was opened/pinned.`
+        );
       } catch (error) {
         output.appendLine(`Failed to open unignored file "${item.changedFile.path}": ${String(error)}`);
         void vscode.window.showErrorMessage(
           `Branch Change Tabs: "${item.changedFile.path}" was un-ignored, but could not be opened.`
         );
       }
-      void vscode.window.showInformationMessage(
-        `Branch Change Tabs: "${item.changedFile.path}" is no longer ignored and was opened/pinned.`
-      );
       changedFilesView.refresh();
     }
   );
@@ -274,91 +372,513 @@ export function activate(context: vscode.ExtensionContext) {
       if (!item) {
         return;
       }
+      await showDiffAgainstBase(git.repositories, [item], context);
+    }
+  );
+  context.subscriptions.push(showDiffAgainstBaseCommand);
 
-      const repo = git.repositories.find((candidate) =>
-        isPathInRepo(item.fileUri.fsPath, candidate.rootUri.fsPath)
+  const closePinnedGroupCommand = vscode.commands.registerCommand(
+    COMMAND_CLOSE_PINNED_GROUP_TABS,
+    async () => {
+      await closeAllPinnedTabsInActiveGroup();
+    }
+  );
+  context.subscriptions.push(closePinnedGroupCommand);
+
+  const viewAsTreeCommand = vscode.commands.registerCommand(COMMAND_VIEW_AS_TREE, async () => {
+    await vscode.workspace
+      .getConfiguration("branchTabs")
+      .update("changedFilesViewMode", "tree", vscode.ConfigurationTarget.Global);
+  });
+  context.subscriptions.push(viewAsTreeCommand);
+
+  const viewAsListCommand = vscode.commands.registerCommand(COMMAND_VIEW_AS_LIST, async () => {
+    await vscode.workspace
+      .getConfiguration("branchTabs")
+      .update("changedFilesViewMode", "flat", vscode.ConfigurationTarget.Global);
+  });
+  context.subscriptions.push(viewAsListCommand);
+
+  const openFolderCommand = vscode.commands.registerCommand(
+    COMMAND_VIEW_OPEN_FOLDER,
+    async (item?: ChangedFolderItem) => {
+      if (!item) {
+        return;
+      }
+      const openable = item.fileItems.filter(
+        (fileItem) => !fileItem.ignored && fileItem.changedFile.kind !== "deleted"
       );
+      for (const fileItem of openable) {
+        try {
+          await vscode.commands.executeCommand("vscode.open", fileItem.fileUri, { preview: false });
+        } catch (error) {
+          output.appendLine(`Failed to open "${fileItem.changedFile.path}": ${String(error)}`);
+        }
+      }
+    }
+  );
+  context.subscriptions.push(openFolderCommand);
+
+  const ignoreFolderCommand = vscode.commands.registerCommand(
+    COMMAND_VIEW_IGNORE_FOLDER,
+    async (item?: ChangedFolderItem) => {
+      if (!item) {
+        return;
+      }
+      const added = await addWorkspaceIgnoredFiles(
+        context,
+        item.repoRoot,
+        item.fileItems.map((fileItem) => fileItem.changedFile.path)
+      );
+      const addedSet = new Set(added);
+      for (const fileItem of item.fileItems) {
+        if (!addedSet.has(fileItem.changedFile.path)) {
+          continue;
+        }
+        await closeTabsForFile(fileItem.fileUri);
+        getRepositoryState(item.repoRoot)?.openedFiles.delete(fileItem.fileUri.toString());
+      }
+      void vscode.window.showInformationMessage(
+        added.length > 0
+          ? `Branch Change Tabs: ignored ${added.length} file(s) under "${item.folderPath}".`
+          : `Branch Change Tabs: all files under "${item.folderPath}" are already ignored.`
+      );
+      changedFilesView.refresh();
+    }
+  );
+  context.subscriptions.push(ignoreFolderCommand);
+
+  const showDiffFolderCommand = vscode.commands.registerCommand(
+    COMMAND_VIEW_SHOW_DIFF_FOLDER,
+    async (item?: ChangedFolderItem) => {
+      if (!item) {
+        return;
+      }
+      await showDiffAgainstBase(git.repositories, item.fileItems, context);
+    }
+  );
+  context.subscriptions.push(showDiffFolderCommand);
+
+  const refreshRepositoryCommand = vscode.commands.registerCommand(
+    COMMAND_VIEW_REFRESH_REPOSITORY,
+    (item?: ChangedRepositoryItem) => {
+      if (!item) {
+        return;
+      }
+      changedFilesView.refresh(item.repoRoot);
+    }
+  );
+  context.subscriptions.push(refreshRepositoryCommand);
+
+  const openRepositoryCommand = vscode.commands.registerCommand(
+    COMMAND_VIEW_OPEN_REPOSITORY,
+    async (item?: ChangedRepositoryItem) => {
+      if (!item) {
+        return;
+      }
+      await openRepositoryChangedFiles(item.repository, context, {
+        ignoreEnablement: true,
+        workspaceIgnoredFiles: getWorkspaceIgnoredFiles(context, item.repoRoot)
+      });
+      changedFilesView.refresh(item.repoRoot);
+    }
+  );
+  context.subscriptions.push(openRepositoryCommand);
+
+  const selectBaseRefCommand = vscode.commands.registerCommand(
+    COMMAND_SELECT_BASE_REF,
+    async (item?: ChangedRepositoryItem) => {
+      const repo = item?.repository ?? getEditorActiveRepository();
       const branchName = repo?.state.HEAD?.name;
       if (!repo || !branchName) {
-        void vscode.window.showWarningMessage(
-          "Branch Change Tabs: active repository or branch could not be determined."
+        void vscode.window.showInformationMessage(
+          "Branch Change Tabs: no active repository branch found."
         );
         return;
       }
 
-      const settings = getExtensionSettings();
-      const baseRef = await resolveBaseRef(
-        repo.rootUri.fsPath,
-        settings.baseBranch,
-        branchName,
-        repo.state.HEAD?.upstream?.name
+      const repoRoot = repo.rootUri.fsPath;
+      const picked = await pickBaseRef(repoRoot, branchName, context);
+      if (!picked) {
+        return;
+      }
+
+      await setSelectedBaseRef(context, repoRoot, branchName, picked.ref);
+      output.appendLine(
+        picked.ref
+          ? `Base ref for "${branchName}" set to "${picked.ref}".`
+          : `Base ref selection for "${branchName}" cleared.`
       );
-      if (!baseRef || !(await doesRefExist(repo.rootUri.fsPath, baseRef))) {
-        void vscode.window.showWarningMessage(
-          "Branch Change Tabs: a valid base branch/ref could not be resolved in this repository."
-        );
+      changedFilesView.refresh(repoRoot);
+    }
+  );
+  context.subscriptions.push(selectBaseRefCommand);
+
+  const openMultiDiffCommand = vscode.commands.registerCommand(
+    COMMAND_OPEN_MULTI_DIFF,
+    async (item?: ChangedRepositoryItem) => {
+      const repo = item?.repository ?? getEditorActiveRepository();
+      if (!repo) {
+        void vscode.window.showInformationMessage("Branch Change Tabs: no active repository found.");
         return;
       }
 
-      try {
-        const rightUri = item.fileUri;
-        const rightDoc = await vscode.workspace.openTextDocument(rightUri);
-        const leftContent = await getFileContentsAtRef(
-          item.repoRoot,
-          baseRef,
-          item.changedFile.path
+      // Shows every current branch change, even while the view is stale or narrowed by a search.
+      const changed = await changedFilesView.getBranchChangedFiles(repo);
+      if (!changed || changed.files.length === 0) {
+        void vscode.window.showInformationMessage(
+          "Branch Change Tabs: no changed files to show for the current branch."
         );
-        const leftDoc = await vscode.workspace.openTextDocument({
-          content: leftContent ?? "",
-          language: rightDoc.languageId
-        });
+        return;
+      }
 
+      // The branch diff starts at the merge-base, so changes made on the base since are not shown.
+      const repoRoot = repo.rootUri.fsPath;
+      const diffRef = (await getMergeBase(repoRoot, changed.baseRef)) ?? changed.baseRef;
+      const resources = changed.files.map((file) => {
+        const fileUri = vscode.Uri.file(path.join(repoRoot, file.path));
+        return [
+          fileUri,
+          toBaseContentUri(repoRoot, diffRef, file.oldPath ?? file.path),
+          file.kind === "deleted" ? toEmptyContentUri(repoRoot, file.path) : fileUri
+        ];
+      });
+      const headLabel = (await getHeadState(repo))?.label ?? "HEAD";
+      try {
         await vscode.commands.executeCommand(
-          "vscode.diff",
-          leftDoc.uri,
-          rightUri,
-          `${path.basename(item.changedFile.path)} (${baseRef} vs Working Tree)`
+          "vscode.changes",
+          `${headLabel} vs ${changed.baseRef} (${resources.length} files)`,
+          resources
         );
       } catch (error) {
-        output.appendLine(`Failed to open diff for "${item.changedFile.path}": ${String(error)}`);
+        output.appendLine(`Failed to open multi-diff editor: ${String(error)}`);
         void vscode.window.showErrorMessage(
-          `Branch Change Tabs: failed to open diff for "${item.changedFile.path}".`
+          "Branch Change Tabs: the multi-file diff editor is not available in this version of VS Code."
         );
       }
     }
   );
-  context.subscriptions.push(showDiffAgainstBaseCommand);
+  context.subscriptions.push(openMultiDiffCommand);
 
-  const closePinnedGroupCommand = vscode.commands.registerCommand(
-    COMMAND_CLOSE_PINNED_GROUP_TABS,
+  const nextBranchHunkCommand = vscode.commands.registerCommand(COMMAND_NEXT_BRANCH_HUNK, async () => {
+    await goToBranchHunk(git.repositories, "next", context);
+  });
+  context.subscriptions.push(nextBranchHunkCommand);
+
+  const previousBranchHunkCommand = vscode.commands.registerCommand(
+    COMMAND_PREVIOUS_BRANCH_HUNK,
     async () => {
-      await closeAllPinnedTabsInActiveGroup();
+      await goToBranchHunk(git.repositories, "previous", context);
     }
   );
-  context.subscriptions.push(closePinnedGroupCommand);
+  context.subscriptions.push(previousBranchHunkCommand);
+
+  const listSessionSnapshotsCommand = vscode.commands.registerCommand(
+    COMMAND_LIST_SESSION_SNAPSHOTS,
+    async () => {
+      const repo = getEditorActiveRepository();
+      if (!repo) {
+        void vscode.window.showInformationMessage("Branch Change Tabs: no active repository found.");
+        return;
+      }
+
+      const repoRoot = repo.rootUri.fsPath;
+      const snapshots = listSessionSnapshots(context, repoRoot);
+      if (snapshots.length === 0) {
+        void vscode.window.showInformationMessage(
+          "Branch Change Tabs: no session snapshots saved for this repository."
+        );
+        return;
+      }
+
+      const picked = await vscode.window.showQuickPick(
+        snapshots.map((snapshot) => toSnapshotQuickPickItem(snapshot)),
+        { placeHolder: "Select a branch session snapshot" }
+      );
+      if (!picked) {
+        return;
+      }
+
+      const action = await vscode.window.showQuickPick(["Restore", "Delete"], {
+        placeHolder: `Snapshot for "${picked.snapshot.branch}"`
+      });
+      if (action === "Restore") {
+        const state = verifyRepositoryState(repo, context);
+        await closeTabsBeforeOpen(state);
+        const restored = await restoreEditorSession(picked.snapshot);
+        for (const uri of restored) {
+          state.openedFiles.add(uri.toString());
+        }
+        output.appendLine(
+          `Restored ${restored.length} tab(s) from snapshot for "${picked.snapshot.branch}".`
+        );
+      } else if (action === "Delete") {
+        await deleteSessionSnapshots(context, repoRoot, [picked.snapshot.branch]);
+        void vscode.window.showInformationMessage(
+          `Branch Change Tabs: deleted session snapshot for "${picked.snapshot.branch}".`
+        );
+      }
+    }
+  );
+  context.subscriptions.push(listSessionSnapshotsCommand);
+
+  const deleteSessionSnapshotsCommand = vscode.commands.registerCommand(
+    COMMAND_DELETE_SESSION_SNAPSHOTS,
+    async () => {
+      const repo = getEditorActiveRepository();
+      if (!repo) {
+        void vscode.window.showInformationMessage("Branch Change Tabs: no active repository found.");
+        return;
+      }
+
+      const repoRoot = repo.rootUri.fsPath;
+      const snapshots = listSessionSnapshots(context, repoRoot);
+      if (snapshots.length === 0) {
+        void vscode.window.showInformationMessage(
+          "Branch Change Tabs: no session snapshots saved for this repository."
+        );
+        return;
+      }
+
+      const picked = await vscode.window.showQuickPick(
+        snapshots.map((snapshot) => toSnapshotQuickPickItem(snapshot)),
+        { placeHolder: "Select session snapshots to delete", canPickMany: true }
+      );
+      if (!picked || picked.length === 0) {
+        return;
+      }
+
+      const removed = await deleteSessionSnapshots(
+        context,
+        repoRoot,
+        picked.map((item) => item.snapshot.branch)
+      );
+      void vscode.window.showInformationMessage(
+        `Branch Change Tabs: deleted ${removed} session snapshot(s).`
+      );
+    }
+  );
+  context.subscriptions.push(deleteSessionSnapshotsCommand);
+
+  const clearPinnedFileSetCommand = vscode.commands.registerCommand(
+    COMMAND_CLEAR_PINNED_FILE_SET,
+    async () => {
+      const repo = getEditorActiveRepository();
+      const branch = repo ? getHeadRef(repo) : undefined;
+      if (!repo || !branch) {
+        void vscode.window.showInformationMessage("Branch Change Tabs: no active branch found.");
+        return;
+      }
+
+      const repoRoot = repo.rootUri.fsPath;
+      if (!getPinnedFileSet(context, repoRoot, branch)) {
+        void vscode.window.showInformationMessage(
+          `Branch Change Tabs: no pinned file set saved for "${branch}".`
+        );
+        return;
+      }
+
+      await setPinnedFileSet(context, repoRoot, branch, undefined);
+      void vscode.window.showInformationMessage(
+        `Branch Change Tabs: cleared the pinned file set for "${branch}".`
+      );
+    }
+  );
+  context.subscriptions.push(clearPinnedFileSetCommand);
+
+  const manageIgnoredFilesCommand = vscode.commands.registerCommand(
+    COMMAND_MANAGE_IGNORED_FILES,
+    async () => {
+      if (await showIgnoredFilesPicker(context)) {
+        changedFilesView.refresh();
+      }
+    }
+  );
+  context.subscriptions.push(manageIgnoredFilesCommand);
+
+  const addIgnoredPatternCommand = vscode.commands.registerCommand(
+    COMMAND_ADD_IGNORED_PATTERN,
+    async () => {
+      const repo = getEditorActiveRepository();
+      if (!repo) {
+        void vscode.window.showInformationMessage("Branch Change Tabs: no active repository found.");
+        return;
+      }
+      if (await addIgnoredPattern(context, repo)) {
+        changedFilesView.refresh(repo.rootUri.fsPath);
+      }
+    }
+  );
+  context.subscriptions.push(addIgnoredPatternCommand);
+
+  const pruneIgnoredFilesCommand = vscode.commands.registerCommand(
+    COMMAND_PRUNE_IGNORED_FILES,
+    async () => {
+      if (await pruneIgnoredFiles(context)) {
+        changedFilesView.refresh();
+      }
+    }
+  );
+  context.subscriptions.push(pruneIgnoredFilesCommand);
+
+  const exportIgnoredFilesCommand = vscode.commands.registerCommand(
+    COMMAND_EXPORT_IGNORED_FILES,
+    async () => {
+      await exportIgnoredFiles(context);
+    }
+  );
+  context.subscriptions.push(exportIgnoredFilesCommand);
+
+  const importIgnoredFilesCommand = vscode.commands.registerCommand(
+    COMMAND_IMPORT_IGNORED_FILES,
+    async () => {
+      if (await importIgnoredFiles(context, git.repositories)) {
+        changedFilesView.refresh();
+      }
+    }
+  );
+  context.subscriptions.push(importIgnoredFilesCommand);
+}
+
+/**
+ * Builds a quick pick item describing a saved session snapshot.
+ */
+function toSnapshotQuickPickItem(
+  snapshot: SessionSnapshot
+): vscode.QuickPickItem & { snapshot: SessionSnapshot } {
+  const tabCount = snapshot.groups.reduce((total, group) => total + group.tabs.length, 0);
+  return {
+    label: snapshot.branch,
+    description: `${tabCount} tab(s) in ${snapshot.groups.length} group(s)`,
+    detail: `Saved ${new Date(snapshot.savedAt).toLocaleString()}`,
+    snapshot
+  };
 }
 
-async function getFileContentsAtRef(
+/**
+ * Shows a quick pick of local branches, remote branches and tags to use as the branch's base.
+ * Resolves to `{ ref: undefined }` when the user chooses to fall back to settings.
+ */
+async function pickBaseRef(
   repoRoot: string,
-  ref: string,
-  relativePath: string
-): Promise<string | undefined> {
-  try {
-    const { stdout } = await execFileAsync("git", ["show", `${ref}:${relativePath}`], {
-      cwd: repoRoot,
-      windowsHide: true
-    });
-    return stdout;
-  } catch (error) {
-    if (
-      error instanceof Error &&
-      (error.message.includes("exists on disk, but not in") ||
-        error.message.includes("does not exist in"))
-    ) {
-      return undefined;
+  branchName: string,
+  context: vscode.ExtensionContext
+): Promise<{ ref: string | undefined } | undefined> {
+  const refs = await listRefs(repoRoot);
+  const selected = getSelectedBaseRef(context, repoRoot, branchName);
+  const sections: [GitRefEntry["kind"], string][] = [
+    ["branch", "Branches"],
+    ["remote", "Remote Branches"],
+    ["tag", "Tags"]
+  ];
+  const items: (vscode.QuickPickItem & { ref?: string })[] = [
+    {
+      label: "$(settings) Use settings / automatic detection",
+      description: selected ? undefined : "current"
+    }
+  ];
+  for (const [kind, title] of sections) {
+    const entries = refs.filter((entry) => entry.kind === kind && entry.name !== branchName);
+    if (entries.length === 0) {
+      continue;
     }
-    throw error;
+    items.push({ label: title, kind: vscode.QuickPickItemKind.Separator });
+    items.push(
+      ...entries.map((entry) => ({
+        label: entry.name,
+        description: entry.name === selected ? "current" : undefined,
+        ref: entry.name
+      }))
+    );
   }
+
+  const picked = await vscode.window.showQuickPick(items, {
+    placeHolder: `Base ref for "${branchName}" in ${path.basename(repoRoot)}`,
+    matchOnDescription: true
+  });
+  return picked ? { ref: picked.ref } : undefined;
+}
+
+/**
+ * Opens diff editors of the base ref (from its merge-base with HEAD) against the working tree.
+ * A single item opens in a preview tab; several items each get their own tab.
+ */
+async function showDiffAgainstBase(
+  repositories: Repository[],
+  items: ChangedFileItem[],
+  context: vscode.ExtensionContext
+): Promise<void> {
+  const first = items[0];
+  if (!first) {
+    return;
+  }
+
+  const repo = repositories.find((candidate) =>
+    isPathInRepo(first.fileUri.fsPath, candidate.rootUri.fsPath)
+  );
+  if (!repo || !getHeadRef(repo)) {
+    void vscode.window.showWarningMessage(
+      "Branch Change Tabs: active repository or branch could not be determined."
+    );
+    return;
+  }
+
+  const settings = getExtensionSettings();
+  const baseRef = (
+    await resolveBaseRef(repo.rootUri.fsPath, {
+      configuredBase: settings.baseBranch,
+      currentBranch: repo.state.HEAD?.name,
+      upstream: repo.state.HEAD?.upstream?.name,
+      selectedBase: getSelectedBaseRef(context, repo.rootUri.fsPath, repo.state.HEAD?.name),
+      strategies: settings.baseRefStrategies,
+      defaultBranchNames: settings.defaultBranchNames
+    })
+  )?.ref;
+  if (!baseRef || !(await doesRefExist(repo.rootUri.fsPath, baseRef))) {
+    void vscode.window.showWarningMessage(
+      "Branch Change Tabs: a valid base branch/ref could not be resolved in this repository."
+    );
+    return;
+  }
+
+  const diffRef = (await getMergeBase(repo.rootUri.fsPath, baseRef)) ?? baseRef;
+  for (const item of items) {
+    try {
+      const leftUri = toBaseContentUri(
+        item.repoRoot,
+        diffRef,
+        item.changedFile.oldPath ?? item.changedFile.path
+      );
+      const rightUri =
+        item.changedFile.kind === "deleted"
+          ? toEmptyContentUri(item.repoRoot, item.changedFile.path)
+          : item.fileUri;
+
+      await vscode.commands.executeCommand(
+        "vscode.diff",
+        leftUri,
+        rightUri,
+        `${path.basename(item.changedFile.path)} (${baseRef} vs Working Tree)`,
+        { preview: items.length === 1 }
+      );
+    } catch (error) {
+      output.appendLine(`Failed to open diff for "${item.changedFile.path}": ${String(error)}`);
+      void vscode.window.showErrorMessage(
+        `Branch Change Tabs: failed to open diff for "${item.changedFile.path}".`
+      );
+    }
+  }
+}
+
+/**
+ * Mirrors the changed-files view mode into a context key for the view-title toggle.
+ */
+async function updateViewModeContext(): Promise<void> {
+  await vscode.commands.executeCommand(
+    "setContext",
+    "branchTabs.changedFilesViewMode",
+    getExtensionSettings().changedFilesViewMode
+  );
 }
 
 function isPathInRepo(filePath: string, repoRoot: string): boolean {
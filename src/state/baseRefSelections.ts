@@ -0,0 +1,49 @@
+import * as vscode from "vscode";
+import { normalizeRepoRoot } from "./ignoredFiles";
+
+const WORKSPACE_BASE_REFS_KEY = "branchTabs.baseRefByRepoBranch";
+
+type BaseRefsByRepo = Record<string, Record<string, string>>;
+
+/**
+ * Returns the base ref the user selected for a repository branch, if any.
+ */
+export function getSelectedBaseRef(
+  context: vscode.ExtensionContext,
+  repoRoot: string,
+  branch: string | undefined
+): string | undefined {
+  if (!branch) {
+    return undefined;
+  }
+
+  const allSelections = context.workspaceState.get<BaseRefsByRepo>(WORKSPACE_BASE_REFS_KEY, {});
+  return allSelections[normalizeRepoRoot(repoRoot)]?.[branch];
+}
+
+/**
+ * Persists the base ref selected for a repository branch. Passing undefined clears the selection.
+ */
+export async function setSelectedBaseRef(
+  context: vscode.ExtensionContext,
+  repoRoot: string,
+  branch: string,
+  ref: string | undefined
+): Promise<void> {
+  const allSelections = context.workspaceState.get<BaseRefsByRepo>(WORKSPACE_BASE_REFS_KEY, {});
+  const repoKey = normalizeRepoRoot(repoRoot);
+  const selectionsForRepo = { ...(allSelections[repoKey] ?? {}) };
+  if (ref) {
+    selectionsForRepo[branch] = ref;
+  } else {
+    delete selectionsForRepo[branch];
+  }
+
+  const updated: BaseRefsByRepo = { ...allSelections };
+  if (Object.keys(selectionsForRepo).length === 0) {
+    delete updated[repoKey];
+  } else {
+    updated[repoKey] = selectionsForRepo;
+  }
+  await context.workspaceState.update(WORKSPACE_BASE_REFS_KEY, updated);
+}
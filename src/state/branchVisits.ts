@@ -0,0 +1,41 @@
+import * as vscode from "vscode";
+import { normalizeRepoRoot } from "./ignoredFiles";
+
+const WORKSPACE_BRANCH_VISITS_KEY = "branchTabs.lastVisitByRepoBranch";
+
+export type BranchVisit = {
+  commit: string;
+  leftAt: number;
+};
+
+type BranchVisitsByRepo = Record<string, Record<string, BranchVisit>>;
+
+/**
+ * Returns the HEAD commit and time at which a repository branch was last left, if recorded.
+ */
+export function getLastBranchVisit(
+  context: vscode.ExtensionContext,
+  repoRoot: string,
+  branch: string
+): BranchVisit | undefined {
+  const allVisits = context.workspaceState.get<BranchVisitsByRepo>(WORKSPACE_BRANCH_VISITS_KEY, {});
+  return allVisits[normalizeRepoRoot(repoRoot)]?.[branch];
+}
+
+/**
+ * Records the HEAD commit of a repository branch that is being left.
+ */
+export async function recordBranchVisit(
+  context: vscode.ExtensionContext,
+  repoRoot: string,
+  branch: string,
+  commit: string
+): Promise<void> {
+  const allVisits = context.workspaceState.get<BranchVisitsByRepo>(WORKSPACE_BRANCH_VISITS_KEY, {});
+  const repoKey = normalizeRepoRoot(repoRoot);
+  const updated: BranchVisitsByRepo = {
+    ...allVisits,
+    [repoKey]: { ...(allVisits[repoKey] ?? {}), [branch]: { commit, leftAt: Date.now() } }
+  };
+  await context.workspaceState.update(WORKSPACE_BRANCH_VISITS_KEY, updated);
+}
@@ -1,10 +1,12 @@
 import * as path from "path";
 import * as vscode from "vscode";
 import { ChangedFile } from "../core/types";
+import { matchesAnyPattern } from "../core/patterns";
 
 const WORKSPACE_IGNORED_FILES_KEY = "branchTabs.ignoredFilesByRepo";
+const GLOB_PREFIX = "glob:";
 
-type IgnoredFilesByRepo = Record<string, string[]>;
+export type IgnoredFilesByRepo = Record<string, string[]>;
 
 /**
  * Returns ignored repo-relative file paths for the provided repository root.
@@ -19,6 +21,13 @@ export function getWorkspaceIgnoredFiles(
   return new Set(ignoredForRepo);
 }
 
+/**
+ * Returns all ignored entries keyed by normalized repository root.
+ */
+export function getAllWorkspaceIgnoredFiles(context: vscode.ExtensionContext): IgnoredFilesByRepo {
+  return context.workspaceState.get<IgnoredFilesByRepo>(WORKSPACE_IGNORED_FILES_KEY, {});
+}
+
 /**
  * Persists a repo-relative file path as ignored for this workspace and repo.
  * Returns false when the path was already ignored.
@@ -44,6 +53,34 @@ export async function addWorkspaceIgnoredFile(
   return true;
 }
 
+/**
+ * Persists several repo-relative file paths as ignored for this workspace and repo.
+ * Returns the paths that were not already ignored.
+ */
+export async function addWorkspaceIgnoredFiles(
+  context: vscode.ExtensionContext,
+  repoRoot: string,
+  repoRelativePaths: string[]
+): Promise<string[]> {
+  const allIgnored = context.workspaceState.get<IgnoredFilesByRepo>(WORKSPACE_IGNORED_FILES_KEY, {});
+  const repoKey = normalizeRepoRoot(repoRoot);
+  const ignoredForRepo = new Set(allIgnored[repoKey] ?? []);
+  const added = repoRelativePaths.filter((entry) => !ignoredForRepo.has(entry));
+  if (added.length === 0) {
+    return added;
+  }
+
+  for (const entry of added) {
+    ignoredForRepo.add(entry);
+  }
+  const updated: IgnoredFilesByRepo = {
+    ...allIgnored,
+    [repoKey]: [...ignoredForRepo].sort()
+  };
+  await context.workspaceState.update(WORKSPACE_IGNORED_FILES_KEY, updated);
+  return added;
+}
+
 /**
  * Removes a repo-relative file path from workspace ignored files.
  * Returns false when the path was not ignored.
@@ -71,6 +108,55 @@ export async function removeWorkspaceIgnoredFile(
   return true;
 }
 
+/**
+ * Removes several entries from workspace ignored files.
+ * Returns the entries that were removed.
+ */
+export async function removeWorkspaceIgnoredFiles(
+  context: vscode.ExtensionContext,
+  repoRoot: string,
+  entries: string[]
+): Promise<string[]> {
+  const allIgnored = context.workspaceState.get<IgnoredFilesByRepo>(WORKSPACE_IGNORED_FILES_KEY, {});
+  const repoKey = normalizeRepoRoot(repoRoot);
+  const ignoredForRepo = new Set(allIgnored[repoKey] ?? []);
+  const removed = entries.filter((entry) => ignoredForRepo.delete(entry));
+  if (removed.length === 0) {
+    return removed;
+  }
+
+  const updated: IgnoredFilesByRepo = { ...allIgnored };
+  if (ignoredForRepo.size === 0) {
+    delete updated[repoKey];
+  } else {
+    updated[repoKey] = [...ignoredForRepo].sort();
+  }
+  await context.workspaceState.update(WORKSPACE_IGNORED_FILES_KEY, updated);
+  return removed;
+}
+
+/**
+ * Returns true when an ignored entry is a glob ("glob:" prefix, or containing "*" or "?")
+ * rather than an exact repo-relative path.
+ */
+export function isIgnoredFileGlob(entry: string): boolean {
+  return entry.startsWith(GLOB_PREFIX) || /[*?]/.test(entry);
+}
+
+/**
+ * Returns true when a repo-relative path matches an exact or glob ignored entry.
+ */
+export function isWorkspaceIgnoredPath(repoRelativePath: string, ignoredFiles: Set<string>): boolean {
+  if (ignoredFiles.has(repoRelativePath)) {
+    return true;
+  }
+
+  const globs = [...ignoredFiles]
+    .filter(isIgnoredFileGlob)
+    .map((entry) => (entry.startsWith(GLOB_PREFIX) ? entry : `${GLOB_PREFIX}${entry}`));
+  return globs.length > 0 && matchesAnyPattern(repoRelativePath, globs, "file");
+}
+
 /**
  * Filters out files explicitly ignored in workspace state.
  */
@@ -78,10 +164,13 @@ export function filterWorkspaceIgnoredFiles(files: ChangedFile[], ignoredFiles:
   if (ignoredFiles.size === 0) {
     return files;
   }
-  return files.filter((file) => !ignoredFiles.has(file.path));
+  return files.filter((file) => !isWorkspaceIgnoredPath(file.path, ignoredFiles));
 }
 
-function normalizeRepoRoot(repoRoot: string): string {
+/**
+ * Normalizes a repository root for use as a per-repository workspaceState key.
+ */
+export function normalizeRepoRoot(repoRoot: string): string {
   const normalized = path.normalize(repoRoot);
   if (process.platform === "win32") {
     return normalized.toLowerCase();
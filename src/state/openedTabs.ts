@@ -0,0 +1,109 @@
+import * as vscode from "vscode";
+import { output } from "../core/logger";
+import { getTabFileUri } from "../ui/ui";
+import { normalizeRepoRoot } from "./ignoredFiles";
+
+const WORKSPACE_OPENED_FILES_KEY = "branchTabs.openedFilesByRepo";
+
+type OpenedFilesByRepo = Record<string, string[]>;
+
+/**
+ * Registry of the tabs the extension opened for a repository. Every change is written to
+ * workspaceState so the registry survives window reloads.
+ */
+class OpenedFilesRegistry extends Set<string> {
+  constructor(
+    private readonly context: vscode.ExtensionContext,
+    private readonly repoRoot: string,
+    initial: Iterable<string>
+  ) {
+    super();
+    for (const uri of initial) {
+      super.add(uri);
+    }
+  }
+
+  add(uri: string): this {
+    if (!this.has(uri)) {
+      super.add(uri);
+      this.persist();
+    }
+    return this;
+  }
+
+  delete(uri: string): boolean {
+    const removed = super.delete(uri);
+    if (removed) {
+      this.persist();
+    }
+    return removed;
+  }
+
+  clear(): void {
+    if (this.size > 0) {
+      super.clear();
+      this.persist();
+    }
+  }
+
+  private persist(): void {
+    void saveOpenedFiles(this.context, this.repoRoot, [...this]);
+  }
+}
+
+/**
+ * Creates the opened-files registry of a repository, restoring entries saved before a reload.
+ * Entries whose tabs are no longer open are dropped so manually reopened files are not claimed.
+ */
+export function createOpenedFilesRegistry(
+  context: vscode.ExtensionContext,
+  repoRoot: string
+): Set<string> {
+  const saved =
+    context.workspaceState.get<OpenedFilesByRepo>(WORKSPACE_OPENED_FILES_KEY, {})[
+      normalizeRepoRoot(repoRoot)
+    ] ?? [];
+  const openUris = getOpenTabUris();
+  const restored = saved.filter((uri) => openUris.has(uri));
+  const registry = new OpenedFilesRegistry(context, repoRoot, restored);
+  if (restored.length !== saved.length) {
+    void saveOpenedFiles(context, repoRoot, restored);
+  }
+  if (restored.length > 0) {
+    output.appendLine(`Restored ${restored.length} extension-opened tab(s) for ${repoRoot}.`);
+  }
+  return registry;
+}
+
+/**
+ * Writes the registry of one repository to workspaceState.
+ */
+async function saveOpenedFiles(
+  context: vscode.ExtensionContext,
+  repoRoot: string,
+  uris: string[]
+): Promise<void> {
+  const allOpened = context.workspaceState.get<OpenedFilesByRepo>(WORKSPACE_OPENED_FILES_KEY, {});
+  const repoKey = normalizeRepoRoot(repoRoot);
+  const updated: OpenedFilesByRepo = { ...allOpened };
+  if (uris.length === 0) {
+    delete updated[repoKey];
+  } else {
+    updated[repoKey] = uris;
+  }
+  await context.workspaceState.update(WORKSPACE_OPENED_FILES_KEY, updated);
+}
+
+/**
+ * Returns the file URIs shown by any open tab.
+ */
+function getOpenTabUris(): Set<string> {
+  const uris = new Set<string>();
+  for (const tab of vscode.window.tabGroups.all.flatMap((group) => group.tabs)) {
+    const fileUri = getTabFileUri(tab);
+    if (fileUri) {
+      uris.add(fileUri.toString());
+    }
+  }
+  return uris;
+}
@@ -0,0 +1,55 @@
+import * as vscode from "vscode";
+import { normalizeRepoRoot } from "./ignoredFiles";
+
+const WORKSPACE_PINNED_FILE_SETS_KEY = "branchTabs.pinnedFileSetByRepoBranch";
+
+type PinnedFileSetsByRepo = Record<string, Record<string, string[]>>;
+
+/**
+ * Returns the repo-relative paths saved as the pinned file set of a repository branch, if any.
+ */
+export function getPinnedFileSet(
+  context: vscode.ExtensionContext,
+  repoRoot: string,
+  branch: string | undefined
+): string[] | undefined {
+  if (!branch) {
+    return undefined;
+  }
+
+  const allSets = context.workspaceState.get<PinnedFileSetsByRepo>(
+    WORKSPACE_PINNED_FILE_SETS_KEY,
+    {}
+  );
+  return allSets[normalizeRepoRoot(repoRoot)]?.[branch];
+}
+
+/**
+ * Persists the pinned file set of a repository branch. Passing undefined or an empty list clears it.
+ */
+export async function setPinnedFileSet(
+  context: vscode.ExtensionContext,
+  repoRoot: string,
+  branch: string,
+  paths: string[] | undefined
+): Promise<void> {
+  const allSets = context.workspaceState.get<PinnedFileSetsByRepo>(
+    WORKSPACE_PINNED_FILE_SETS_KEY,
+    {}
+  );
+  const repoKey = normalizeRepoRoot(repoRoot);
+  const setsForRepo = { ...(allSets[repoKey] ?? {}) };
+  if (paths && paths.length > 0) {
+    setsForRepo[branch] = [...paths];
+  } else {
+    delete setsForRepo[branch];
+  }
+
+  const updated: PinnedFileSetsByRepo = { ...allSets };
+  if (Object.keys(setsForRepo).length === 0) {
+    delete updated[repoKey];
+  } else {
+    updated[repoKey] = setsForRepo;
+  }
+  await context.workspaceState.update(WORKSPACE_PINNED_FILE_SETS_KEY, updated);
+}
@@ -1,8 +1,10 @@
 import * as vscode from "vscode";
 import { Repository, ExtensionSEttings } from "../core/types";
 import { output } from "../core/logger";
+import { raceCancellation } from "../core/cancellation";
 
 const repositoryEnabledCache = new Map<string, boolean>();
+const pendingPrompts = new Map<string, Promise<boolean>>();
 let extensionContext: vscode.ExtensionContext | undefined;
 
 /**
@@ -28,11 +30,13 @@ export async function clearAllExtensionTrackedRepositories(): Promise<void> {
 }
 
 /**
- * Ensures repository enablement state is known, prompting once if needed.
+ * Ensures repository enablement state is known, prompting once if needed. Concurrent callers share
+ * one prompt; a cancelled token stops waiting on it with a CancellationError.
  */
 export async function isRepositoryEnabledOnInitialCheckout(
   repo: Repository,
-  settings: ExtensionSEttings
+  settings: ExtensionSEttings,
+  token?: vscode.CancellationToken
 ): Promise<boolean> {
   if (!extensionContext) {
     return true;
@@ -66,6 +70,23 @@ export async function isRepositoryEnabledOnInitialCheckout(
     return true;
   }
 
+  let prompt = pendingPrompts.get(key);
+  if (!prompt) {
+    prompt = promptForRepositoryEnablement(key, extensionContext).finally(() => {
+      pendingPrompts.delete(key);
+    });
+    pendingPrompts.set(key, prompt);
+  }
+  return raceCancellation(prompt, token);
+}
+
+/**
+ * Asks whether to enable the extension for a repository and stores the answer.
+ */
+async function promptForRepositoryEnablement(
+  key: string,
+  context: vscode.ExtensionContext
+): Promise<boolean> {
   const choice = await vscode.window.showInformationMessage(
     "Enable Branch Change Tabs for this repository?",
     { detail: key },
@@ -85,7 +106,7 @@ export async function isRepositoryEnabledOnInitialCheckout(
     const config = vscode.workspace.getConfiguration("branchTabs");
     await config.update("promptOnNewRepository", false, true);
     repositoryEnabledCache.set(key, true);
-    await extensionContext.globalState.update(`repoDisabled:${key}`, false);
+    await context.globalState.update(`repoDisabled:${key}`, false);
     output.appendLine(
       "Disabled future repository prompts (branchTabs.promptOnNewRepository = false)."
     );
@@ -95,9 +116,9 @@ export async function isRepositoryEnabledOnInitialCheckout(
   const enabled = choice === "Enable";
   repositoryEnabledCache.set(key, enabled);
   if (enabled) {
-    await extensionContext.globalState.update(`repoDisabled:${key}`, false);
+    await context.globalState.update(`repoDisabled:${key}`, false);
   } else {
-    await extensionContext.globalState.update(`repoDisabled:${key}`, true);
+    await context.globalState.update(`repoDisabled:${key}`, true);
     output.appendLine(`Repository disabled by user: ${key}`);
   }
 
@@ -1,4 +1,6 @@
+import * as vscode from "vscode";
 import { GitRepositoryState, Repository } from "../core/types";
+import { createOpenedFilesRegistry } from "./openedTabs";
 
 const repositoryStates = new Map<string, GitRepositoryState>();
 
@@ -9,10 +11,20 @@ export function getRepositoryState(repoRoot: string): GitRepositoryState | undef
   return repositoryStates.get(repoRoot);
 }
 
+/**
+ * Returns the state of every tracked repository.
+ */
+export function getAllRepositoryStates(): GitRepositoryState[] {
+  return [...repositoryStates.values()];
+}
+
 /**
  * Ensures repository state is initialized and returns it.
  */
-export function verifyRepositoryState(repo: Repository): GitRepositoryState {
+export function verifyRepositoryState(
+  repo: Repository,
+  context: vscode.ExtensionContext
+): GitRepositoryState {
   const key = repo.rootUri.fsPath;
   const existing = repositoryStates.get(key);
   if (existing) {
@@ -21,7 +33,8 @@ export function verifyRepositoryState(repo: Repository): GitRepositoryState {
 
   const state: GitRepositoryState = {
     lastBranch: repo.state.HEAD?.name,
-    openedFiles: new Set()
+    lastCommit: repo.state.HEAD?.commit,
+    openedFiles: createOpenedFilesRegistry(context, key)
   };
   repositoryStates.set(key, state);
 
@@ -0,0 +1,93 @@
+import * as vscode from "vscode";
+import { SessionSnapshot } from "../core/types";
+import { normalizeRepoRoot } from "./ignoredFiles";
+
+const WORKSPACE_SESSION_SNAPSHOTS_KEY = "branchTabs.sessionSnapshotsByRepo";
+
+type SessionSnapshotsByRepo = Record<string, Record<string, SessionSnapshot>>;
+
+/**
+ * Returns the stored editor session snapshot for a repository branch.
+ */
+export function getSessionSnapshot(
+  context: vscode.ExtensionContext,
+  repoRoot: string,
+  branch: string
+): SessionSnapshot | undefined {
+  const allSnapshots = context.workspaceState.get<SessionSnapshotsByRepo>(
+    WORKSPACE_SESSION_SNAPSHOTS_KEY,
+    {}
+  );
+  return allSnapshots[normalizeRepoRoot(repoRoot)]?.[branch];
+}
+
+/**
+ * Returns all stored snapshots for a repository, most recently saved first.
+ */
+export function listSessionSnapshots(
+  context: vscode.ExtensionContext,
+  repoRoot: string
+): SessionSnapshot[] {
+  const allSnapshots = context.workspaceState.get<SessionSnapshotsByRepo>(
+    WORKSPACE_SESSION_SNAPSHOTS_KEY,
+    {}
+  );
+  const snapshotsForRepo = allSnapshots[normalizeRepoRoot(repoRoot)] ?? {};
+  return Object.values(snapshotsForRepo).sort((a, b) => b.savedAt - a.savedAt);
+}
+
+/**
+ * Persists an editor session snapshot for a repository branch, replacing any previous one.
+ */
+export async function saveSessionSnapshot(
+  context: vscode.ExtensionContext,
+  repoRoot: string,
+  snapshot: SessionSnapshot
+): Promise<void> {
+  const allSnapshots = context.workspaceState.get<SessionSnapshotsByRepo>(
+    WORKSPACE_SESSION_SNAPSHOTS_KEY,
+    {}
+  );
+  const repoKey = normalizeRepoRoot(repoRoot);
+  const updated: SessionSnapshotsByRepo = {
+    ...allSnapshots,
+    [repoKey]: { ...(allSnapshots[repoKey] ?? {}), [snapshot.branch]: snapshot }
+  };
+  await context.workspaceState.update(WORKSPACE_SESSION_SNAPSHOTS_KEY, updated);
+}
+
+/**
+ * Removes stored snapshots for the given branches of a repository.
+ * Returns the number of snapshots that were removed.
+ */
+export async function deleteSessionSnapshots(
+  context: vscode.ExtensionContext,
+  repoRoot: string,
+  branches: string[]
+): Promise<number> {
+  const allSnapshots = context.workspaceState.get<SessionSnapshotsByRepo>(
+    WORKSPACE_SESSION_SNAPSHOTS_KEY,
+    {}
+  );
+  const repoKey = normalizeRepoRoot(repoRoot);
+  const snapshotsForRepo = { ...(allSnapshots[repoKey] ?? {}) };
+  let removed = 0;
+  for (const branch of branches) {
+    if (snapshotsForRepo[branch]) {
+      delete snapshotsForRepo[branch];
+      removed += 1;
+    }
+  }
+  if (removed === 0) {
+    return 0;
+  }
+
+  const updated: SessionSnapshotsByRepo = { ...allSnapshots };
+  if (Object.keys(snapshotsForRepo).length === 0) {
+    delete updated[repoKey];
+  } else {
+    updated[repoKey] = snapshotsForRepo;
+  }
+  await context.workspaceState.update(WORKSPACE_SESSION_SNAPSHOTS_KEY, updated);
+  return removed;
+}
@@ -0,0 +1,60 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseCommitLog } from "../git/commitLog";
+
+// Tokens of `git log -z --numstat --format=COMMIT_LOG_FORMAT` output, newest commit first.
+const LOG_OUTPUT = [
+  "__BCT_AUTHOR__",
+  "ann@example.com",
+  "Ann",
+  "Bob <bob@example.com>\x01 Cy <cy@example.com> ",
+  "\n1\t0\tone.txt",
+  "0\t0\t",
+  "two.txt",
+  "three.txt",
+  "-\t-\timage.png",
+  "__BCT_AUTHOR__",
+  "bob@example.com",
+  "Bob",
+  "",
+  "\n2\t3\tone.txt",
+  "1\t0\ttwo.txt",
+  ""
+].join("\0");
+
+describe("parseCommitLog", () => {
+  it("reads authors and per-file line counts for each commit", () => {
+    const { commits } = parseCommitLog(LOG_OUTPUT);
+    assert.equal(commits.length, 2);
+    assert.deepEqual(commits[0].authors, [{ email: "ann@example.com", name: "Ann" }]);
+    assert.deepEqual(commits[1].authors, [{ email: "bob@example.com", name: "Bob" }]);
+    assert.deepEqual([...commits[1].linesByPath], [
+      ["one.txt", 5],
+      ["two.txt", 1]
+    ]);
+  });
+
+  it("records renames under the new path and binary changes as zero lines", () => {
+    const { commits } = parseCommitLog(LOG_OUTPUT);
+    assert.deepEqual([...commits[0].linesByPath], [
+      ["one.txt", 1],
+      ["three.txt", 0],
+      ["image.png", 0]
+    ]);
+  });
+
+  it("collects trimmed Co-authored-by trailers only for commits that have them", () => {
+    const { commits, coAuthorsByCommit } = parseCommitLog(LOG_OUTPUT);
+    assert.deepEqual(coAuthorsByCommit.get(commits[0]), [
+      "Bob <bob@example.com>",
+      "Cy <cy@example.com>"
+    ]);
+    assert.equal(coAuthorsByCommit.has(commits[1]), false);
+  });
+
+  it("returns no commits for empty output", () => {
+    const { commits, coAuthorsByCommit } = parseCommitLog("");
+    assert.deepEqual(commits, []);
+    assert.equal(coAuthorsByCommit.size, 0);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { IgnoreRule, isIgnored, parseRule } from "../git/ignoreRules";
+
+/**
+ * Parses .branchtabsignore content as if it were declared in the given directory.
+ */
+function parseRules(content: string, baseDir = ""): IgnoreRule[] {
+  return content
+    .split("\n")
+    .map((line) => parseRule(line, baseDir))
+    .filter((rule): rule is IgnoreRule => Boolean(rule));
+}
+
+describe("parseRule", () => {
+  it("skips blank lines and comments", () => {
+    assert.equal(parseRule("", ""), undefined);
+    assert.equal(parseRule("   ", ""), undefined);
+    assert.equal(parseRule("# comment", ""), undefined);
+    assert.equal(parseRule("/", ""), undefined);
+  });
+
+  it("reads negation, directory-only and escaped leading characters", () => {
+    const negated = parseRule("!keep.ts", "");
+    assert.equal(negated?.negate, true);
+    assert.ok(negated?.regex.test("keep.ts"));
+
+    const directory = parseRule("generated/", "");
+    assert.equal(directory?.dirOnly, true);
+    assert.ok(directory?.regex.test("generated"));
+
+    const hash = parseRule("\\#notes.md", "");
+    assert.equal(hash?.negate, false);
+    assert.ok(hash?.regex.test("#notes.md"));
+
+    const bang = parseRule("\\!important.md", "");
+    assert.equal(bang?.negate, false);
+    assert.ok(bang?.regex.test("!important.md"));
+  });
+
+  it("drops trailing spaces unless escaped", () => {
+    assert.ok(parseRule("notes.md   ", "")?.regex.test("notes.md"));
+    assert.ok(parseRule("notes\\ ", "")?.regex.test("notes "));
+  });
+
+  it("anchors patterns with a leading or middle slash", () => {
+    const unanchored = parseRule("*.snap", "");
+    assert.ok(unanchored?.regex.test("a/b/c.snap"));
+
+    const leading = parseRule("/todo.md", "");
+    assert.ok(leading?.regex.test("todo.md"));
+    assert.ok(!leading?.regex.test("docs/todo.md"));
+
+    const middle = parseRule("docs/*.md", "");
+    assert.ok(middle?.regex.test("docs/a.md"));
+    assert.ok(!middle?.regex.test("src/docs/a.md"));
+  });
+
+  it("records the declaring directory", () => {
+    assert.equal(parseRule("*.log", "packages/app")?.baseDir, "packages/app");
+  });
+});
+
+describe("isIgnored", () => {
+  it("ignores files matched directly or through a parent directory", () => {
+    const rules = parseRules("*.snap\ngenerated/");
+    assert.ok(isIgnored(rules, "src/__snapshots__/a.snap"));
+    assert.ok(isIgnored(rules, "src/generated/api.ts"));
+    assert.ok(!isIgnored(rules, "src/main.ts"));
+  });
+
+  it("applies directory-only rules to directories but not files", () => {
+    const rules = parseRules("build/");
+    assert.ok(isIgnored(rules, "build/out.js"));
+    assert.ok(!isIgnored(rules, "scripts/build"));
+  });
+
+  it("lets a later negation re-include a file", () => {
+    const rules = parseRules("*.md\n!README.md");
+    assert.ok(isIgnored(rules, "docs/guide.md"));
+    assert.ok(!isIgnored(rules, "README.md"));
+    assert.ok(!isIgnored(rules, "docs/README.md"));
+  });
+
+  it("does not re-include files inside an excluded directory", () => {
+    const rules = parseRules("vendor/\n!vendor/keep.js");
+    assert.ok(isIgnored(rules, "vendor/keep.js"));
+  });
+
+  it("scopes rules to the directory of their file and lets nested files override", () => {
+    const rules = [...parseRules("*.json"), ...parseRules("!fixtures.json", "packages/app")];
+    assert.ok(isIgnored(rules, "config.json"));
+    assert.ok(isIgnored(rules, "packages/lib/fixtures.json"));
+    assert.ok(!isIgnored(rules, "packages/app/fixtures.json"));
+    assert.ok(!isIgnored(rules, "packages/app/src/fixtures.json"));
+
+    const nested = parseRules("/local.ts", "packages/app");
+    assert.ok(isIgnored(nested, "packages/app/local.ts"));
+    assert.ok(!isIgnored(nested, "local.ts"));
+    assert.ok(!isIgnored(nested, "packages/app/src/local.ts"));
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { compilePattern, globToRegExpSource, PatternTarget } from "../core/patternCompiler";
+
+/**
+ * Compiles a pattern that is expected to be valid and non-blank.
+ */
+function matcher(pattern: string, target: PatternTarget): (value: string) => boolean {
+  const compiled = compilePattern(pattern, target);
+  assert.ok(compiled, `expected "${pattern}" to compile`);
+  return compiled;
+}
+
+describe("globToRegExpSource", () => {
+  const matches = (glob: string, value: string) =>
+    new RegExp(`^${globToRegExpSource(glob)}$`).test(value);
+
+  it("keeps * and ? within one path segment", () => {
+    assert.ok(matches("src/*.ts", "src/main.ts"));
+    assert.ok(!matches("src/*.ts", "src/core/main.ts"));
+    assert.ok(matches("file?.ts", "file1.ts"));
+    assert.ok(!matches("file?.ts", "file/.ts"));
+  });
+
+  it("lets ** span zero or more directories", () => {
+    assert.ok(matches("**/test.ts", "test.ts"));
+    assert.ok(matches("**/test.ts", "a/b/test.ts"));
+    assert.ok(matches("src/**/test.ts", "src/test.ts"));
+    assert.ok(matches("src/**/test.ts", "src/a/b/test.ts"));
+    assert.ok(matches("dist/**", "dist/a/b.js"));
+    assert.ok(!matches("dist/**", "other/a.js"));
+  });
+
+  it("supports bracket expressions, negated brackets and brace alternation", () => {
+    assert.ok(matches("file[0-9].ts", "file3.ts"));
+    assert.ok(!matches("file[!0-9].ts", "file3.ts"));
+    assert.ok(matches("file[!0-9].ts", "fileA.ts"));
+    assert.ok(matches("*.{js,ts}", "main.js"));
+    assert.ok(matches("*.{js,ts}", "main.ts"));
+    assert.ok(!matches("*.{js,ts}", "main.css"));
+  });
+
+  it("escapes regex syntax and honours backslash escapes", () => {
+    assert.ok(matches("a+b.(c)", "a+b.(c)"));
+    assert.ok(!matches("a.b", "aXb"));
+    assert.ok(matches("\\*.ts", "*.ts"));
+    assert.ok(!matches("\\*.ts", "main.ts"));
+    assert.ok(matches("[abc", "[abc"));
+  });
+});
+
+describe("compilePattern", () => {
+  it("returns undefined for blank patterns", () => {
+    assert.equal(compilePattern("", "file"), undefined);
+    assert.equal(compilePattern("   ", "branch"), undefined);
+  });
+
+  it("throws for invalid regexes and empty globs", () => {
+    assert.throws(() => compilePattern("regex:(", "file"));
+    assert.throws(() => compilePattern("/[/", "file"));
+    assert.throws(() => compilePattern("glob:", "file"));
+  });
+
+  describe("file target", () => {
+    it("matches slash-less globs against the file name at any depth", () => {
+      const isMatch = matcher("*.lock", "file");
+      assert.ok(isMatch("yarn.lock"));
+      assert.ok(isMatch("packages/app/yarn.lock"));
+      assert.ok(!isMatch("yarn.lock.txt"));
+    });
+
+    it("anchors globs containing a slash to the repository root", () => {
+      const isMatch = matcher("docs/*.md", "file");
+      assert.ok(isMatch("docs/readme.md"));
+      assert.ok(!isMatch("packages/docs/readme.md"));
+      assert.ok(matcher("glob:/package.json", "file")("package.json"));
+      assert.ok(!matcher("glob:/package.json", "file")("app/package.json"));
+    });
+
+    it("treats unprefixed regex syntax and plain text as substring regexes", () => {
+      assert.ok(matcher("\\.generated\\.", "file")("src/api.generated.ts"));
+      assert.ok(matcher("^src/.*\\.snap$", "file")("src/a/b.snap"));
+      assert.ok(matcher("fixtures", "file")("test/fixtures/a.json"));
+    });
+
+    it("honours explicit prefixes and /pattern/flags", () => {
+      assert.ok(matcher("glob:**/*.min.js", "file")("web/app.min.js"));
+      assert.ok(matcher("regex:\\.md$", "file")("README.md"));
+      assert.ok(matcher("/readme/i", "file")("README.md"));
+      assert.ok(!matcher("/readme/", "file")("README.md"));
+    });
+  });
+
+  describe("directory target", () => {
+    it("matches any parent directory of the file", () => {
+      const isMatch = matcher("node_modules", "directory");
+      assert.ok(isMatch("node_modules/pkg/index.js"));
+      assert.ok(matcher("build*", "directory")("packages/app/build-out/main.js"));
+      assert.ok(!matcher("build*", "directory")("packages/app/build.js"));
+    });
+
+    it("treats a trailing /** as the directory itself", () => {
+      const isMatch = matcher("dist/**", "directory");
+      assert.ok(isMatch("dist/main.js"));
+      assert.ok(!isMatch("src/dist.js"));
+    });
+  });
+
+  describe("branch target", () => {
+    it("matches unprefixed names exactly, even with regex syntax", () => {
+      const isMatch = matcher("feature/c++(fix)", "branch");
+      assert.ok(isMatch("feature/c++(fix)"));
+      assert.ok(!isMatch("feature/c++(fix)-2"));
+      assert.ok(!matcher("main", "branch")("maintenance"));
+    });
+
+    it("matches globs against the whole branch name", () => {
+      const isMatch = matcher("release/*", "branch");
+      assert.ok(isMatch("release/1.0"));
+      assert.ok(!isMatch("release/1.0/hotfix"));
+      assert.ok(!isMatch("old-release/1.0"));
+      assert.ok(matcher("dependabot/**", "branch")("dependabot/npm/lodash"));
+    });
+
+    it("still accepts explicit regexes", () => {
+      assert.ok(matcher("regex:^wip-", "branch")("wip-parser"));
+      assert.ok(matcher("/^HOTFIX/i", "branch")("hotfix-12"));
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import * as vscode from "vscode";
+
+type RepositoryHighlights = {
+  branch: string;
+  uris: Set<string>;
+};
+
+/**
+ * Marks files that changed on a branch since the user last had it checked out.
+ */
+export class LastVisitDecorationProvider implements vscode.FileDecorationProvider {
+  private readonly onDidChangeFileDecorationsEmitter = new vscode.EventEmitter<vscode.Uri[]>();
+  readonly onDidChangeFileDecorations = this.onDidChangeFileDecorationsEmitter.event;
+  private readonly highlightsByRepo = new Map<string, RepositoryHighlights>();
+
+  /**
+   * Replaces the highlighted files of a repository.
+   */
+  setChangedFiles(repoRoot: string, branch: string, fileUris: vscode.Uri[]): void {
+    const previous = this.highlightsByRepo.get(repoRoot);
+    this.highlightsByRepo.set(repoRoot, { branch, uris: new Set(fileUris.map((uri) => uri.toString())) });
+    this.fireChanged([...(previous?.uris ?? []), ...fileUris.map((uri) => uri.toString())]);
+  }
+
+  /**
+   * Removes the highlights of a repository.
+   */
+  clear(repoRoot: string): void {
+    const previous = this.highlightsByRepo.get(repoRoot);
+    if (!previous) {
+      return;
+    }
+
+    this.highlightsByRepo.delete(repoRoot);
+    this.fireChanged([...previous.uris]);
+  }
+
+  provideFileDecoration(uri: vscode.Uri): vscode.FileDecoration | undefined {
+    const key = uri.toString();
+    for (const highlights of this.highlightsByRepo.values()) {
+      if (highlights.uris.has(key)) {
+        return new vscode.FileDecoration(
+          "•",
+          `Changed on "${highlights.branch}" since your last visit`,
+          new vscode.ThemeColor("charts.yellow")
+        );
+      }
+    }
+    return undefined;
+  }
+
+  private fireChanged(uris: string[]): void {
+    if (uris.length > 0) {
+      this.onDidChangeFileDecorationsEmitter.fire([...new Set(uris)].map((uri) => vscode.Uri.parse(uri)));
+    }
+  }
+}
+
+export const lastVisitDecorations = new LastVisitDecorationProvider();
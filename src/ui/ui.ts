@@ -1,10 +1,29 @@
 import * as vscode from "vscode";
-import { GitRepositoryState, Repository } from "../core/types";
+import {
+  DirtyTabPolicy,
+  GitRepositoryState,
+  Repository,
+  SessionSnapshot,
+  SessionSnapshotTab
+} from "../core/types";
+import { output } from "../core/logger";
+import { raceCancellation } from "../core/cancellation";
+
+const pinnedUris = new Set<string>();
+const pendingExtensionPins = new Set<string>();
 
 /**
- * Closes tabs that were opened by the extension.
+ * Closes tabs that were opened by the extension, optionally only those for the given URIs.
+ * Dirty tabs are handled by the dirty tab policy; tabs left open stay registered so a later
+ * switch can close them.
  */
-export async function closeExtensionOpenedFiles(state: GitRepositoryState): Promise<void> {
+export async function closeExtensionOpenedFiles(
+  state: GitRepositoryState,
+  policy: DirtyTabPolicy,
+  onlyUris?: Set<string>,
+  token?: vscode.CancellationToken
+): Promise<void> {
+  const inScope = (uri: string) => state.openedFiles.has(uri) && (!onlyUris || onlyUris.has(uri));
   if (state.openedFiles.size === 0) {
     return;
   }
@@ -12,54 +31,225 @@ export async function closeExtensionOpenedFiles(state: GitRepositoryState): Prom
   const toClose: vscode.Tab[] = [];
   for (const group of vscode.window.tabGroups.all) {
     for (const tab of group.tabs) {
-      const input = tab.input;
-      if (input instanceof vscode.TabInputText) {
-        if (state.openedFiles.has(input.uri.toString())) {
-          toClose.push(tab);
-        }
+      const fileUri = getTabFileUri(tab);
+      if (fileUri && inScope(fileUri.toString())) {
+        toClose.push(tab);
+      }
+    }
+  }
+
+  const keptOpen = await closeTabsWithDirtyPolicy(toClose, policy, token);
+  const keptUris = new Set(keptOpen.map((tab) => getTabFileUri(tab)?.toString()));
+  for (const uri of [...state.openedFiles]) {
+    if (inScope(uri) && !keptUris.has(uri)) {
+      state.openedFiles.delete(uri);
+    }
+  }
+}
+
+/**
+ * Closes the tabs a branch change replaces in one pass, so the dirty tab policy is applied once:
+ * tabs opened by the extension (only pinned ones when pinnedOnly is set), plus every other tab
+ * when closeAll is set. Tabs left open stay registered so a later switch can close them.
+ */
+export async function closeTabsForBranchChange(
+  state: GitRepositoryState,
+  options: { pinnedOnly: boolean; closeAll: boolean },
+  policy: DirtyTabPolicy,
+  token?: vscode.CancellationToken
+): Promise<void> {
+  const toClose = new Set<vscode.Tab>();
+  for (const group of vscode.window.tabGroups.all) {
+    for (const tab of group.tabs) {
+      const fileUri = getTabFileUri(tab);
+      const openedByExtension = Boolean(fileUri && state.openedFiles.has(fileUri.toString()));
+      if (options.closeAll || (openedByExtension && (tab.isPinned || !options.pinnedOnly))) {
+        toClose.add(tab);
+      }
+    }
+  }
+
+  const keptOpen = await closeTabsWithDirtyPolicy([...toClose], policy, token);
+  const keptUris = new Set(keptOpen.map((tab) => getTabFileUri(tab)?.toString()));
+  for (const tab of toClose) {
+    const uri = getTabFileUri(tab)?.toString();
+    if (uri && !keptUris.has(uri)) {
+      state.openedFiles.delete(uri);
+    }
+  }
+}
+
+/**
+ * Closes tabs without ever raising per-file save dialogs: clean tabs are closed and dirty tabs are
+ * skipped, saved first, or decided on in one summary prompt. Never throws, so a blocked close cannot
+ * stop the caller from opening new files; a cancelled token answers the prompt with "Keep Open".
+ * Returns the tabs that were left open.
+ */
+async function closeTabsWithDirtyPolicy(
+  tabs: vscode.Tab[],
+  policy: DirtyTabPolicy,
+  token?: vscode.CancellationToken
+): Promise<vscode.Tab[]> {
+  if (tabs.length === 0) {
+    return [];
+  }
+
+  const cleanTabs = tabs.filter((tab) => !tab.isDirty);
+  let dirtyTabs = tabs.filter((tab) => tab.isDirty);
+  let saveDirtyTabs = policy === "save";
+  if (dirtyTabs.length > 0 && policy === "prompt") {
+    const names = dirtyTabs.map((tab) => tab.label);
+    const summary =
+      names.length > 5 ? `${names.slice(0, 5).join(", ")} and ${names.length - 5} more` : names.join(", ");
+    const choice = await raceCancellation(
+      vscode.window.showWarningMessage(
+        `Branch Change Tabs: ${dirtyTabs.length} tab(s) to close have unsaved changes: ${summary}.`,
+        { modal: true },
+        "Save and Close",
+        "Keep Open"
+      ),
+      token
+    ).catch(() => undefined);
+    saveDirtyTabs = choice === "Save and Close";
+  }
+
+  const toClose = [...cleanTabs];
+  if (saveDirtyTabs) {
+    const stillDirty: vscode.Tab[] = [];
+    for (const tab of dirtyTabs) {
+      if (await saveTabDocument(tab)) {
+        toClose.push(tab);
+      } else {
+        stillDirty.push(tab);
       }
     }
+    dirtyTabs = stillDirty;
+  }
+
+  if (dirtyTabs.length > 0) {
+    const labels = dirtyTabs.map((tab) => tab.label).join(", ");
+    output.appendLine(`Kept ${dirtyTabs.length} tab(s) with unsaved changes open: ${labels}`);
   }
 
   if (toClose.length > 0) {
-    await vscode.window.tabGroups.close(toClose, true);
+    try {
+      await vscode.window.tabGroups.close(toClose, true);
+    } catch (error) {
+      output.appendLine(`Failed to close tabs: ${String(error)}`);
+    }
   }
 
-  state.openedFiles.clear();
+  return dirtyTabs;
 }
 
 /**
- * Closes only pinned tabs that were opened by the extension.
+ * Saves the document behind a dirty tab. Returns false when it could not be saved.
  */
-export async function closeExtensionPinnedFiles(state: GitRepositoryState): Promise<void> {
-  if (state.openedFiles.size === 0) {
-    return;
+async function saveTabDocument(tab: vscode.Tab): Promise<boolean> {
+  const fileUri = getTabFileUri(tab);
+  const document = fileUri
+    ? vscode.workspace.textDocuments.find((doc) => doc.uri.toString() === fileUri.toString())
+    : undefined;
+  if (!document) {
+    return false;
   }
 
-  const toClose: vscode.Tab[] = [];
-  for (const group of vscode.window.tabGroups.all) {
-    for (const tab of group.tabs) {
-      if (!tab.isPinned) {
-        continue;
+  try {
+    return await document.save();
+  } catch (error) {
+    output.appendLine(`Failed to save "${document.uri.fsPath}": ${String(error)}`);
+    return false;
+  }
+}
+
+/**
+ * Returns the working-tree file a tab shows: the document of a text tab, or the modified side of
+ * a diff tab. Other tab kinds return undefined.
+ */
+export function getTabFileUri(tab: vscode.Tab): vscode.Uri | undefined {
+  const input = tab.input;
+  if (input instanceof vscode.TabInputText) {
+    return input.uri;
+  } else if (input instanceof vscode.TabInputTextDiff) {
+    return input.modified;
+  }
+  return undefined;
+}
+
+/**
+ * Records which files are shown in pinned tabs, so later pin changes can be told apart.
+ */
+export function recordPinnedTabs(): void {
+  pinnedUris.clear();
+  for (const tab of getAllTabs()) {
+    const fileUri = getTabFileUri(tab);
+    if (fileUri && tab.isPinned) {
+      pinnedUris.add(fileUri.toString());
+    }
+  }
+}
+
+/**
+ * Pins the active editor on the extension's behalf, so the pin is not mistaken for the user
+ * claiming the tab.
+ */
+export async function pinExtensionEditor(fileUri: vscode.Uri): Promise<void> {
+  const key = fileUri.toString();
+  if (!pinnedUris.has(key)) {
+    pendingExtensionPins.add(key);
+  }
+  await vscode.commands.executeCommand("workbench.action.pinEditor");
+}
+
+/**
+ * Keeps the opened-files registries in sync with the tab strip: closing the last tab of a file
+ * removes it, and pinning a registered tab by hand claims it so the extension no longer closes it.
+ */
+export function reconcileOpenedTabs(event: vscode.TabChangeEvent, states: GitRepositoryState[]): void {
+  for (const tab of [...event.opened, ...event.changed]) {
+    const fileUri = getTabFileUri(tab);
+    if (!fileUri) {
+      continue;
+    }
+
+    const key = fileUri.toString();
+    const wasPinned = pinnedUris.has(key);
+    if (!tab.isPinned) {
+      const stillPinned = getAllTabs().some(
+        (other) => other.isPinned && getTabFileUri(other)?.toString() === key
+      );
+      if (!stillPinned) {
+        pinnedUris.delete(key);
       }
+      continue;
+    }
 
-      const input = tab.input;
-      if (input instanceof vscode.TabInputText) {
-        if (state.openedFiles.has(input.uri.toString())) {
-          toClose.push(tab);
-        }
+    pinnedUris.add(key);
+    if (pendingExtensionPins.delete(key) || wasPinned) {
+      continue;
+    }
+    for (const state of states) {
+      if (state.openedFiles.delete(key)) {
+        output.appendLine(`Tab pinned by user; no longer closed on branch switch: ${fileUri.fsPath}`);
       }
     }
   }
 
-  if (toClose.length > 0) {
-    await vscode.window.tabGroups.close(toClose, true);
+  if (event.closed.length === 0) {
+    return;
   }
 
-  for (const tab of toClose) {
-    const input = tab.input;
-    if (input instanceof vscode.TabInputText) {
-      state.openedFiles.delete(input.uri.toString());
+  const openUris = new Set(getAllTabs().map((tab) => getTabFileUri(tab)?.toString()));
+  for (const tab of event.closed) {
+    const key = getTabFileUri(tab)?.toString();
+    if (!key || openUris.has(key)) {
+      continue;
+    }
+
+    pinnedUris.delete(key);
+    pendingExtensionPins.delete(key);
+    for (const state of states) {
+      state.openedFiles.delete(key);
     }
   }
 }
@@ -113,8 +303,7 @@ export async function closeTabsForFile(fileUri: vscode.Uri): Promise<number> {
 
   for (const group of vscode.window.tabGroups.all) {
     for (const tab of group.tabs) {
-      const input = tab.input;
-      if (input instanceof vscode.TabInputText && input.uri.toString() === target) {
+      if (getTabFileUri(tab)?.toString() === target) {
         toClose.push(tab);
       }
     }
@@ -126,3 +315,103 @@ export async function closeTabsForFile(fileUri: vscode.Uri): Promise<number> {
 
   return toClose.length;
 }
+
+/**
+ * Captures the current tab layout (groups, pinned state, active tabs) as a snapshot.
+ * Only text and diff tabs of working-tree files are recorded; other tab kinds cannot be reopened
+ * reliably.
+ */
+export function captureEditorSession(branch: string): SessionSnapshot {
+  const activeGroup = vscode.window.tabGroups.activeTabGroup;
+  const groups: SessionSnapshot["groups"] = [];
+  for (const group of vscode.window.tabGroups.all) {
+    const tabs: SessionSnapshot["groups"][number]["tabs"] = [];
+    for (const tab of group.tabs) {
+      const fileUri = getTabFileUri(tab);
+      if (!fileUri || fileUri.scheme !== "file") {
+        continue;
+      }
+
+      const snapshotTab: SessionSnapshotTab = {
+        uri: fileUri.toString(),
+        pinned: tab.isPinned,
+        active: tab.isActive
+      };
+      if (tab.input instanceof vscode.TabInputTextDiff) {
+        snapshotTab.diffOriginalUri = tab.input.original.toString();
+        snapshotTab.diffTitle = tab.label;
+      }
+      tabs.push(snapshotTab);
+    }
+    if (tabs.length > 0) {
+      groups.push({ viewColumn: group.viewColumn, active: group === activeGroup, tabs });
+    }
+  }
+
+  return { branch, savedAt: Date.now(), groups };
+}
+
+/**
+ * Reopens the tabs recorded in a snapshot, restoring groups, pins and active tabs.
+ * Returns the URIs of tabs that were successfully opened.
+ */
+export async function restoreEditorSession(snapshot: SessionSnapshot): Promise<vscode.Uri[]> {
+  const opened: vscode.Uri[] = [];
+  for (const group of snapshot.groups) {
+    for (const tab of group.tabs) {
+      const uri = vscode.Uri.parse(tab.uri);
+      try {
+        await showSnapshotTab(tab, group.viewColumn);
+        if (tab.pinned) {
+          await pinExtensionEditor(uri);
+        }
+        opened.push(uri);
+      } catch (error) {
+        output.appendLine(`Skipping snapshot tab "${uri.fsPath}": ${String(error)}`);
+      }
+    }
+  }
+
+  // Re-show active tabs last so each group ends up focused where it was left.
+  const orderedGroups = [...snapshot.groups].sort((a, b) => Number(a.active) - Number(b.active));
+  for (const group of orderedGroups) {
+    const activeTab = group.tabs.find((tab) => tab.active);
+    if (!activeTab) {
+      continue;
+    }
+    try {
+      await showSnapshotTab(activeTab, group.viewColumn);
+    } catch {
+      // Already logged while reopening the tab above.
+    }
+  }
+
+  return opened;
+}
+
+/**
+ * Opens a snapshot tab in the given column, as a diff when it was recorded from a diff tab.
+ */
+async function showSnapshotTab(tab: SessionSnapshotTab, viewColumn: number): Promise<void> {
+  const uri = vscode.Uri.parse(tab.uri);
+  const options: vscode.TextDocumentShowOptions = { preview: false, preserveFocus: false, viewColumn };
+  if (!tab.diffOriginalUri) {
+    await vscode.window.showTextDocument(uri, options);
+    return;
+  }
+
+  await vscode.commands.executeCommand(
+    "vscode.diff",
+    vscode.Uri.parse(tab.diffOriginalUri),
+    uri,
+    tab.diffTitle,
+    options
+  );
+}
+
+/**
+ * Returns every tab across all editor groups.
+ */
+function getAllTabs(): vscode.Tab[] {
+  return vscode.window.tabGroups.all.flatMap((group) => group.tabs);
+}
@@ -1,12 +1,26 @@
 import * as vscode from "vscode";
-import { Repository } from "../core/types";
+import * as path from "path";
+import { ExtensionSEttings, Repository, RepositoryRun } from "../core/types";
 import { output } from "../core/logger";
 import { getExtensionSettings } from "../core/settings";
+import { matchesAnyPattern } from "../core/patterns";
+import { throwIfCancelled } from "../core/cancellation";
 import { isRepositoryEnabledOnInitialCheckout } from "../state/repoEnablement";
 import { verifyRepositoryState } from "../state/repoState";
-import { openRepositoryChangedFiles } from "../features/changedFiles/openChangedFiles";
-import { closeExtensionOpenedFiles } from "../ui/ui";
+import {
+  closeTabsBeforeOpen,
+  collectFilesToOpen,
+  openRepositoryChangedFiles
+} from "../features/changedFiles/openChangedFiles";
+import { captureEditorSession, closeExtensionOpenedFiles, restoreEditorSession } from "../ui/ui";
 import { getWorkspaceIgnoredFiles } from "../state/ignoredFiles";
+import { getSessionSnapshot, saveSessionSnapshot } from "../state/sessionSnapshots";
+import { getLastBranchVisit, recordBranchVisit } from "../state/branchVisits";
+import { getFilesChangedBetween } from "../git/gitDiff";
+import { getHeadRef, getHeadState, HeadState } from "../git/head";
+import { getConflictedFiles, getInProgressOperation, GIT_OPERATION_LABELS } from "../git/operations";
+import { lastVisitDecorations } from "../ui/lastVisitDecorations";
+import { stringifyError } from "../core/errors";
 
 const trackedRepositories = new Set<string>();
 
@@ -22,56 +36,345 @@ export async function trackRepository(
     return;
   }
   trackedRepositories.add(key);
-  const state = verifyRepositoryState(repo);
+  const state = verifyRepositoryState(repo, context);
 
   const subscription = repo.state.onDidChange(() => {
+    // A newer checkout supersedes a run still working on the previous one.
+    if (state.activeRun && state.activeRun.headRef !== getHeadRef(repo)) {
+      state.activeRun.cancellation.cancel();
+    }
     if (state.pendingTimer) {
       clearTimeout(state.pendingTimer);
     }
     state.pendingTimer = setTimeout(() => {
       state.pendingTimer = undefined;
-      void handleRepositoryChange(repo, context);
+      void handleRepositoryChangeWhenIdle(repo, context);
     }, 200);
   });
 
   context.subscriptions.push(subscription);
 }
 
+/**
+ * Holds off while a rebase, merge, cherry-pick, revert or bisect is in progress, since those move
+ * HEAD many times. The first state change after the operation finishes is handled once, against
+ * the final state and the branch/commit recorded before the operation started.
+ */
+async function handleRepositoryChangeWhenIdle(
+  repo: Repository,
+  context: vscode.ExtensionContext
+): Promise<void> {
+  const repoRoot = repo.rootUri.fsPath;
+  const state = verifyRepositoryState(repo, context);
+  const operation = await getInProgressOperation(repoRoot);
+  if (operation) {
+    if (state.pendingOperation !== operation) {
+      state.pendingOperation = operation;
+      output.appendLine(
+        `Git ${GIT_OPERATION_LABELS[operation]} in progress in ${repoRoot}; waiting for it to finish.`
+      );
+      if (operation === "merge") {
+        void offerToOpenConflictedFiles(repoRoot);
+      }
+    }
+    return;
+  }
+
+  if (state.pendingOperation) {
+    output.appendLine(`Git ${GIT_OPERATION_LABELS[state.pendingOperation]} finished in ${repoRoot}.`);
+    state.pendingOperation = undefined;
+  }
+  await runRepositoryChange(repo, context);
+}
+
+/**
+ * Runs branch handling with a cancellation token. Runs for the same repository never overlap:
+ * a new run waits for the previous one, cancelling it first when HEAD has moved elsewhere.
+ * Prompts race the token, so a cancelled run stops waiting on an unanswered prompt. Errors are
+ * logged rather than rethrown, since the change listener does not await the run.
+ */
+async function runRepositoryChange(
+  repo: Repository,
+  context: vscode.ExtensionContext
+): Promise<void> {
+  const state = verifyRepositoryState(repo, context);
+  const previousRun = state.activeRun;
+  const cancellation = new vscode.CancellationTokenSource();
+  let markDone = () => {};
+  const run: RepositoryRun = {
+    headRef: getHeadRef(repo),
+    cancellation,
+    done: new Promise<void>((resolve) => {
+      markDone = resolve;
+    })
+  };
+  state.activeRun = run;
+
+  try {
+    if (previousRun) {
+      if (previousRun.headRef !== run.headRef) {
+        previousRun.cancellation.cancel();
+      }
+      await previousRun.done;
+    }
+    throwIfCancelled(cancellation.token);
+    await handleRepositoryChange(repo, context, cancellation.token);
+  } catch (error) {
+    if (error instanceof vscode.CancellationError) {
+      output.appendLine(
+        `Run for "${run.headRef ?? "(no HEAD)"}" superseded by a newer branch change in ${repo.rootUri.fsPath}.`
+      );
+    } else {
+      output.appendLine(
+        `Failed to handle branch change in ${repo.rootUri.fsPath}: ${stringifyError(error)}`
+      );
+    }
+  } finally {
+    if (state.activeRun === run) {
+      state.activeRun = undefined;
+    }
+    cancellation.dispose();
+    markDone();
+  }
+}
+
+/**
+ * Offers to open the files with merge conflicts while a merge is in progress.
+ */
+async function offerToOpenConflictedFiles(repoRoot: string): Promise<void> {
+  const conflictedFiles = await getConflictedFiles(repoRoot);
+  if (conflictedFiles.length === 0) {
+    return;
+  }
+
+  const choice = await vscode.window.showInformationMessage(
+    `Branch Change Tabs: merge in progress with ${conflictedFiles.length} conflicted file(s). ` +
+      "Branch tabs will update once it finishes.",
+    "Open Conflicted Files",
+    "Not Now"
+  );
+  if (choice !== "Open Conflicted Files") {
+    return;
+  }
+
+  for (const filePath of conflictedFiles) {
+    try {
+      await vscode.window.showTextDocument(vscode.Uri.file(path.join(repoRoot, filePath)), {
+        preview: false,
+        preserveFocus: false
+      });
+    } catch (error) {
+      output.appendLine(`Failed to open conflicted file "${filePath}": ${String(error)}`);
+    }
+  }
+}
+
 /**
  * Handles a repository state change by opening the branch's changed files.
  */
 async function handleRepositoryChange(
   repo: Repository,
-  context: vscode.ExtensionContext
+  context: vscode.ExtensionContext,
+  token: vscode.CancellationToken
 ): Promise<void> {
   const key = repo.rootUri.fsPath;
-  const state = verifyRepositoryState(repo);
+  const state = verifyRepositoryState(repo, context);
 
   const currentBranch = repo.state.HEAD?.name;
   const previousBranch = state.lastBranch;
+  const currentCommit = repo.state.HEAD?.commit;
+  const previousCommit = state.lastCommit;
   state.lastBranch = currentBranch;
+  state.lastCommit = currentCommit;
 
-  if (!currentBranch || currentBranch === previousBranch) {
+  if (currentBranch && currentBranch === previousBranch) {
+    if (currentCommit && previousCommit && currentCommit !== previousCommit) {
+      // A pull right after returning should still count as "since your last visit", but later
+      // commits on the same visit should not.
+      const firstHeadMove = state.awaitingFirstHeadMove;
+      state.awaitingFirstHeadMove = false;
+      if (firstHeadMove && getExtensionSettings().highlightChangesSinceLastVisit) {
+        await highlightChangesSinceLastVisit(context, key, currentBranch, currentCommit);
+      }
+      await handleHeadCommitChange(repo, context, previousCommit, currentCommit, token);
+    }
+    return;
+  } else if (!currentBranch && !previousBranch && currentCommit === previousCommit) {
+    return;
+  }
+
+  if (previousBranch && previousCommit) {
+    await recordBranchVisit(context, key, previousBranch, previousCommit);
+  }
+  state.branchDiffFiles = undefined;
+  state.awaitingFirstHeadMove = true;
+  lastVisitDecorations.clear(key);
+  const head = await getHeadState(repo);
+  if (!head) {
     return;
   }
 
   const settings = getExtensionSettings();
-  const enabled = await isRepositoryEnabledOnInitialCheckout(repo, settings);
+  const enabled = await isRepositoryEnabledOnInitialCheckout(repo, settings, token);
   if (!enabled) {
     output.appendLine(`Repository disabled by user: ${key}`);
     return;
   }
-  if (settings.excludedBranches.includes(currentBranch)) {
+  // Saved before any early return, so leaving a branch for a skipped detached HEAD keeps its tabs.
+  const usesSnapshots = settings.sessionRestoreMode !== "openDiffFiles";
+  if (usesSnapshots && previousBranch) {
+    await saveSessionSnapshot(context, key, captureEditorSession(previousBranch));
+    output.appendLine(`Saved editor session snapshot for "${previousBranch}".`);
+  }
+  if (head.detached && !shouldAutoOpenDetachedHead(head, settings)) {
+    output.appendLine(
+      `HEAD detached at ${head.label}; skipped by detachedHeadAutoOpen="${settings.detachedHeadAutoOpen}".`
+    );
+    return;
+  }
+  if (!currentBranch) {
+    output.appendLine(`HEAD detached: ${previousBranch ?? "(detached)"} -> ${head.label}`);
+    await openRepositoryChangedFiles(repo, context, {
+      ignoreEnablement: true,
+      workspaceIgnoredFiles: getWorkspaceIgnoredFiles(context, key),
+      token
+    });
+    return;
+  }
+  if (matchesAnyPattern(currentBranch, settings.excludedBranches, "branch")) {
     output.appendLine(`Branch "${currentBranch}" excluded.`);
     if (settings.closeAllOnExcludedBranch) {
-      await closeExtensionOpenedFiles(state);
+      await closeExtensionOpenedFiles(state, settings.dirtyTabPolicy);
     }
     return;
   }
 
   output.appendLine(`Branch changed: ${previousBranch ?? "(unknown)"} -> ${currentBranch}`);
-  await openRepositoryChangedFiles(repo, {
+  if (settings.highlightChangesSinceLastVisit && currentCommit) {
+    await highlightChangesSinceLastVisit(context, key, currentBranch, currentCommit);
+  }
+  const snapshot = usesSnapshots ? getSessionSnapshot(context, key, currentBranch) : undefined;
+  if (snapshot) {
+    throwIfCancelled(token);
+    await closeTabsBeforeOpen(state, token);
+    throwIfCancelled(token);
+    const restored = await restoreEditorSession(snapshot);
+    for (const uri of restored) {
+      state.openedFiles.add(uri.toString());
+    }
+    output.appendLine(`Restored ${restored.length} tab(s) from snapshot for "${currentBranch}".`);
+    if (settings.sessionRestoreMode === "restoreSnapshot") {
+      return;
+    }
+  }
+
+  await openRepositoryChangedFiles(repo, context, {
     ignoreEnablement: false,
-    workspaceIgnoredFiles: getWorkspaceIgnoredFiles(context, repo.rootUri.fsPath)
+    workspaceIgnoredFiles: getWorkspaceIgnoredFiles(context, repo.rootUri.fsPath),
+    preserveOpenTabs: Boolean(snapshot),
+    token
+  });
+}
+
+/**
+ * Handles a HEAD commit change within the same branch (commit, pull, rebase, reset) by opening
+ * files that entered the branch diff and optionally closing files that left it.
+ */
+async function handleHeadCommitChange(
+  repo: Repository,
+  context: vscode.ExtensionContext,
+  previousCommit: string,
+  currentCommit: string,
+  token: vscode.CancellationToken
+): Promise<void> {
+  const settings = getExtensionSettings();
+  const branch = repo.state.HEAD?.name ?? "";
+  if (!settings.openFilesOnCommitChange || matchesAnyPattern(branch, settings.excludedBranches, "branch")) {
+    return;
+  }
+  const key = repo.rootUri.fsPath;
+  if (!(await isRepositoryEnabledOnInitialCheckout(repo, settings, token))) {
+    return;
+  }
+
+  output.appendLine(
+    `HEAD moved on "${branch}": ${previousCommit.slice(0, 7)} -> ${currentCommit.slice(0, 7)}`
+  );
+  const state = verifyRepositoryState(repo, context);
+  const workspaceIgnoredFiles = getWorkspaceIgnoredFiles(context, key);
+  const previousDiffFiles = state.branchDiffFiles;
+  if (!previousDiffFiles) {
+    // No run on this branch yet in this session; record the diff to compare against next time.
+    const collected = await collectFilesToOpen(repo, context, settings, workspaceIgnoredFiles, token);
+    state.branchDiffFiles = new Set(collected?.files.map((file) => file.path) ?? []);
+    output.appendLine("No earlier branch diff to compare against; recorded the current one.");
+    return;
+  }
+
+  await openRepositoryChangedFiles(repo, context, {
+    ignoreEnablement: true,
+    workspaceIgnoredFiles,
+    preserveOpenTabs: true,
+    previousDiffFiles,
+    token
   });
+
+  const currentDiffFiles = state.branchDiffFiles ?? new Set<string>();
+  const leftPaths = [...previousDiffFiles].filter((filePath) => !currentDiffFiles.has(filePath));
+  if (leftPaths.length === 0) {
+    return;
+  }
+
+  output.appendLine(`Files that left the branch diff: ${leftPaths.length}`);
+  if (settings.closeFilesLeavingBranchDiff) {
+    throwIfCancelled(token);
+    const leftUris = new Set(
+      leftPaths.map((filePath) => vscode.Uri.file(path.join(key, filePath)).toString())
+    );
+    await closeExtensionOpenedFiles(state, settings.dirtyTabPolicy, leftUris);
+  }
+}
+
+/**
+ * Highlights files that changed on a branch since it was last checked out.
+ */
+async function highlightChangesSinceLastVisit(
+  context: vscode.ExtensionContext,
+  repoRoot: string,
+  branch: string,
+  currentCommit: string
+): Promise<void> {
+  const visit = getLastBranchVisit(context, repoRoot, branch);
+  if (!visit || visit.commit === currentCommit) {
+    return;
+  }
+
+  const changedPaths = await getFilesChangedBetween(repoRoot, visit.commit, currentCommit);
+  if (changedPaths.length === 0) {
+    return;
+  }
+
+  lastVisitDecorations.setChangedFiles(
+    repoRoot,
+    branch,
+    changedPaths.map((filePath) => vscode.Uri.file(path.join(repoRoot, filePath)))
+  );
+  const leftAt = new Date(visit.leftAt).toLocaleString();
+  output.appendLine(
+    `${changedPaths.length} file(s) changed on "${branch}" since your last visit (${leftAt}).`
+  );
+}
+
+/**
+ * Decides whether a detached HEAD checkout opens its changed files, per detachedHeadAutoOpen.
+ */
+function shouldAutoOpenDetachedHead(head: HeadState, settings: ExtensionSEttings): boolean {
+  switch (settings.detachedHeadAutoOpen) {
+    case "always":
+      return true;
+    case "tags":
+      return Boolean(head.tag);
+    case "off":
+      return false;
+  }
 }